@@ -1,16 +1,36 @@
 -- 积分系统 - 可复用数据库模板
 -- 适用于需要虚拟货币、积分管理的项目
 
+-- 用户积分余额 (扩展 user_profiles)
+-- 余额只能通过 apply_credit_transaction 修改，确保与流水表一致
+ALTER TABLE public.user_profiles
+  ADD COLUMN IF NOT EXISTS credits integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS total_credits_spent integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS total_videos_created integer NOT NULL DEFAULT 0;
+
+-- 可重复执行：约束已存在时先删除再创建
+ALTER TABLE public.user_profiles
+  DROP CONSTRAINT IF EXISTS user_profiles_credits_non_negative,
+  ADD CONSTRAINT user_profiles_credits_non_negative CHECK (credits >= 0);
+
 -- 积分交易记录表
 CREATE TABLE public.credit_transactions (
   id uuid NOT NULL DEFAULT gen_random_uuid(),
   user_id uuid NOT NULL,
-  transaction_type text NOT NULL CHECK (transaction_type = ANY (ARRAY['purchase'::text, 'usage'::text, 'refund'::text, 'bonus'::text])),
+  transaction_type text NOT NULL CHECK (transaction_type = ANY (ARRAY['purchase'::text, 'usage'::text, 'refund'::text, 'bonus'::text, 'adjustment'::text, 'expiration'::text])),
   amount integer NOT NULL,
   description text,
+  -- 本笔交易后的余额 (按 ledger_seq 排序即为运行余额)
+  balance_after integer NOT NULL,
+  -- 流水序号 (同一事务内的多条流水 created_at 相同，按序号排序)
+  ledger_seq bigint GENERATED ALWAYS AS IDENTITY,
+  -- 幂等键 (task ID、checkout ID、签到 ID 等)，重放请求返回原结果
+  idempotency_key text,
+  -- 生成任务ID (服务商返回的 task ID，非 uuid 格式)
+  task_id text,
   -- 关联对象ID (根据项目需要调整)
-  related_object_id uuid, -- 可以是 video_id, order_id 等
-  related_object_type text, -- 'video', 'order', 'subscription' 等
+  related_object_id uuid, -- 可以是 video_id, order_id, check_in_id, referral_id 等
+  related_object_type text CHECK (related_object_type = ANY (ARRAY['video'::text, 'order'::text, 'subscription'::text, 'check_in'::text, 'referral'::text])),
   -- 元数据
   metadata jsonb DEFAULT '{}'::jsonb,
   created_at timestamp with time zone DEFAULT now(),
@@ -19,6 +39,59 @@ CREATE TABLE public.credit_transactions (
   CONSTRAINT credit_transactions_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id)
 );
 
+-- 积分批次表 (每次发放生成一个批次，记录来源与过期时间)
+-- 购买积分永不过期 (expires_at 为 NULL)，赠送/签到/推荐积分按配置过期
+CREATE TABLE public.credit_lots (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  source text NOT NULL CHECK (source = ANY (ARRAY['purchase'::text, 'bonus'::text, 'check_in'::text, 'referral'::text, 'refund'::text, 'adjustment'::text])),
+  original_amount integer NOT NULL CHECK (original_amount > 0),
+  remaining_amount integer NOT NULL CHECK (remaining_amount >= 0),
+  expires_at timestamp with time zone,
+  -- 发放该批次的流水
+  transaction_id uuid,
+  created_at timestamp with time zone DEFAULT now(),
+
+  CONSTRAINT credit_lots_pkey PRIMARY KEY (id),
+  CONSTRAINT credit_lots_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id),
+  CONSTRAINT credit_lots_transaction_id_fkey FOREIGN KEY (transaction_id) REFERENCES public.credit_transactions(id)
+);
+
+-- 批次消耗明细 (退款时据此回补原批次)
+CREATE TABLE public.credit_lot_consumptions (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  transaction_id uuid NOT NULL,
+  lot_id uuid NOT NULL,
+  amount integer NOT NULL CHECK (amount > 0),
+  created_at timestamp with time zone DEFAULT now(),
+
+  CONSTRAINT credit_lot_consumptions_pkey PRIMARY KEY (id),
+  CONSTRAINT credit_lot_consumptions_transaction_id_fkey FOREIGN KEY (transaction_id) REFERENCES public.credit_transactions(id),
+  CONSTRAINT credit_lot_consumptions_lot_id_fkey FOREIGN KEY (lot_id) REFERENCES public.credit_lots(id)
+);
+
+-- 积分预留表 (两阶段扣费：生成时冻结，完成后扣除，失败或超时释放)
+CREATE TABLE public.credit_holds (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  amount integer NOT NULL CHECK (amount > 0),
+  status text NOT NULL DEFAULT 'held'::text CHECK (status = ANY (ARRAY['held'::text, 'captured'::text, 'released'::text, 'expired'::text])),
+  description text,
+  -- 生成任务ID (提交到服务商后回填)
+  task_id text,
+  idempotency_key text,
+  -- 扣除时写入的 usage 流水
+  transaction_id uuid,
+  expires_at timestamp with time zone NOT NULL,
+  resolved_at timestamp with time zone,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now(),
+
+  CONSTRAINT credit_holds_pkey PRIMARY KEY (id),
+  CONSTRAINT credit_holds_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id),
+  CONSTRAINT credit_holds_transaction_id_fkey FOREIGN KEY (transaction_id) REFERENCES public.credit_transactions(id)
+);
+
 -- 签到奖励配置表
 CREATE TABLE public.check_in_rewards (
   id uuid NOT NULL DEFAULT gen_random_uuid(),
@@ -84,6 +157,12 @@ CREATE TABLE public.user_referrals (
   utm_source text,
   utm_medium text,
   utm_campaign text,
+  -- 风控审核 (疑似刷单的推荐保持 pending，待人工审核)
+  review_status text DEFAULT 'none'::text CHECK (review_status = ANY (ARRAY['none'::text, 'flagged'::text, 'approved'::text, 'rejected'::text])),
+  fraud_score integer DEFAULT 0,
+  fraud_reasons jsonb DEFAULT '[]'::jsonb,
+  reviewed_by uuid,
+  reviewed_at timestamp with time zone,
   created_at timestamp with time zone DEFAULT now(),
   updated_at timestamp with time zone DEFAULT now(),
   
@@ -133,6 +212,9 @@ CREATE TABLE public.user_free_credits_stats (
 
 -- Row Level Security 策略
 ALTER TABLE public.credit_transactions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.credit_lots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.credit_lot_consumptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.credit_holds ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.user_check_ins ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.referral_codes ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.user_referrals ENABLE ROW LEVEL SECURITY;
@@ -142,6 +224,14 @@ ALTER TABLE public.user_free_credits_stats ENABLE ROW LEVEL SECURITY;
 CREATE POLICY "Users can view own credit transactions" ON public.credit_transactions
   FOR SELECT USING (auth.uid() = user_id);
 
+-- 用户只能查看自己的积分批次
+CREATE POLICY "Users can view own credit lots" ON public.credit_lots
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- 用户只能查看自己的积分预留
+CREATE POLICY "Users can view own credit holds" ON public.credit_holds
+  FOR SELECT USING (auth.uid() = user_id);
+
 -- 用户只能查看自己的签到记录
 CREATE POLICY "Users can view own check-ins" ON public.user_check_ins
   FOR SELECT USING (auth.uid() = user_id);
@@ -154,8 +244,784 @@ CREATE POLICY "Users can manage own referral codes" ON public.referral_codes
 CREATE INDEX idx_credit_transactions_user_id ON public.credit_transactions(user_id);
 CREATE INDEX idx_credit_transactions_created_at ON public.credit_transactions(created_at DESC);
 CREATE INDEX idx_credit_transactions_type ON public.credit_transactions(transaction_type);
+CREATE INDEX idx_credit_transactions_user_created ON public.credit_transactions(user_id, created_at DESC);
+CREATE INDEX idx_credit_transactions_user_seq ON public.credit_transactions(user_id, ledger_seq DESC);
+CREATE INDEX idx_credit_transactions_task_id ON public.credit_transactions(task_id) WHERE task_id IS NOT NULL;
+CREATE INDEX idx_credit_transactions_related_object ON public.credit_transactions(related_object_type, related_object_id)
+  WHERE related_object_id IS NOT NULL;
+CREATE UNIQUE INDEX idx_credit_transactions_idempotency ON public.credit_transactions(user_id, transaction_type, idempotency_key)
+  WHERE idempotency_key IS NOT NULL;
+
+CREATE INDEX idx_credit_lots_available ON public.credit_lots(user_id, expires_at) WHERE remaining_amount > 0;
+CREATE INDEX idx_credit_lots_expiring ON public.credit_lots(expires_at) WHERE remaining_amount > 0 AND expires_at IS NOT NULL;
+CREATE INDEX idx_credit_lot_consumptions_transaction ON public.credit_lot_consumptions(transaction_id);
+
+CREATE INDEX idx_credit_holds_active ON public.credit_holds(user_id, expires_at) WHERE status = 'held';
+CREATE INDEX idx_credit_holds_task_id ON public.credit_holds(task_id);
+-- 幂等键只约束未释放的预留：释放/过期后同一个键可以重新预留 (失败后重试)
+CREATE UNIQUE INDEX idx_credit_holds_idempotency ON public.credit_holds(user_id, idempotency_key)
+  WHERE idempotency_key IS NOT NULL AND status = ANY (ARRAY['held'::text, 'captured'::text]);
 
 CREATE INDEX idx_user_check_ins_user_date ON public.user_check_ins(user_id, check_in_date DESC);
 CREATE INDEX idx_referral_codes_code ON public.referral_codes(referral_code);
 CREATE INDEX idx_user_referrals_referrer ON public.user_referrals(referrer_id);
-CREATE INDEX idx_user_referrals_status ON public.user_referrals(status);
\ No newline at end of file
+-- 每个用户只能被推荐一次
+CREATE UNIQUE INDEX idx_user_referrals_referred_user ON public.user_referrals(referred_user_id)
+  WHERE referred_user_id IS NOT NULL;
+CREATE INDEX idx_user_referrals_status ON public.user_referrals(status);
+CREATE INDEX idx_user_referrals_referrer_created ON public.user_referrals(referrer_id, created_at DESC);
+CREATE INDEX idx_user_referrals_fingerprint ON public.user_referrals(ip_address, user_agent, created_at DESC);
+CREATE INDEX idx_user_referrals_flagged ON public.user_referrals(created_at DESC) WHERE review_status = 'flagged';
+
+-- 用户当前冻结中的积分 (已过期但尚未清理的预留不再占用余额)
+CREATE OR REPLACE FUNCTION public.active_credit_holds(p_user_id uuid)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(amount), 0)::integer
+  FROM public.credit_holds
+  WHERE user_id = p_user_id
+    AND status = 'held'
+    AND expires_at > now();
+$$;
+
+-- 本事务内正在扣除的预留：capture_credit_hold 先将预留标记为 captured 再扣费，扣费完成前 transaction_id 为空
+CREATE OR REPLACE FUNCTION public.capturing_credit_holds(p_user_id uuid)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(amount), 0)::integer
+  FROM public.credit_holds
+  WHERE user_id = p_user_id
+    AND status = 'captured'
+    AND transaction_id IS NULL;
+$$;
+
+-- 过期指定用户已到期的积分批次，每个批次写入一条 expiration 流水
+-- 冻结中的积分 (含本事务内正在扣除的预留) 不会被过期，保留到预留结束后再结算
+-- 内部函数：调用方必须已持有该用户 user_profiles 行锁
+CREATE OR REPLACE FUNCTION public.expire_user_credit_lots(p_user_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_lot record;
+  v_balance integer;
+  v_expirable integer;
+  v_take integer;
+  v_expired integer := 0;
+BEGIN
+  SELECT credits INTO v_balance
+  FROM public.user_profiles
+  WHERE id = p_user_id;
+
+  v_expirable := v_balance - public.active_credit_holds(p_user_id) - public.capturing_credit_holds(p_user_id);
+
+  FOR v_lot IN
+    SELECT id, source, remaining_amount, expires_at
+    FROM public.credit_lots
+    WHERE user_id = p_user_id
+      AND remaining_amount > 0
+      AND expires_at IS NOT NULL
+      AND expires_at <= now()
+    ORDER BY expires_at
+    FOR UPDATE
+  LOOP
+    EXIT WHEN v_expirable <= 0;
+
+    v_take := LEAST(v_lot.remaining_amount, v_expirable);
+
+    UPDATE public.user_profiles
+    SET credits = credits - v_take
+    WHERE id = p_user_id
+    RETURNING credits INTO v_balance;
+
+    UPDATE public.credit_lots
+    SET remaining_amount = remaining_amount - v_take
+    WHERE id = v_lot.id;
+
+    INSERT INTO public.credit_transactions (user_id, transaction_type, amount, description, metadata, balance_after)
+    VALUES (
+      p_user_id,
+      'expiration',
+      -v_take,
+      'Credits expired',
+      jsonb_build_object('lot_id', v_lot.id, 'source', v_lot.source, 'expires_at', v_lot.expires_at),
+      v_balance
+    );
+
+    v_expirable := v_expirable - v_take;
+    v_expired := v_expired + v_take;
+  END LOOP;
+
+  RETURN v_expired;
+END;
+$$;
+
+-- 原子积分变更：锁定用户余额行，更新余额并写入流水，二者在同一事务中提交
+-- 并发请求在 FOR UPDATE 处串行化，余额不足时整体回滚
+-- 相同 (用户, 类型, 幂等键) 的重复调用不再变更余额，直接返回首次结果 (replayed = true)
+-- 增加积分时新建批次；扣减积分时按到期时间先后 (FIFO) 消耗批次，永不过期的批次最后消耗
+-- 退款优先回补原扣费消耗的批次，保留其原有过期时间
+CREATE OR REPLACE FUNCTION public.apply_credit_transaction(
+  p_user_id uuid,
+  p_amount integer,
+  p_transaction_type text,
+  p_description text DEFAULT NULL,
+  p_metadata jsonb DEFAULT '{}'::jsonb,
+  p_idempotency_key text DEFAULT NULL,
+  p_lot_source text DEFAULT NULL,
+  p_lot_expires_at timestamp with time zone DEFAULT NULL,
+  p_task_id text DEFAULT NULL,
+  p_related_object_type text DEFAULT NULL,
+  p_related_object_id uuid DEFAULT NULL
+)
+RETURNS TABLE (transaction_id uuid, new_balance integer, replayed boolean)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_balance integer;
+  v_existing record;
+  v_lot record;
+  v_remaining integer;
+  v_take integer;
+  v_expired_allowance integer;
+BEGIN
+  IF p_amount = 0
+    OR (p_transaction_type = 'usage' AND p_amount > 0)
+    OR (p_transaction_type IN ('purchase', 'refund', 'bonus') AND p_amount < 0)
+    OR p_transaction_type = 'expiration' THEN
+    RAISE EXCEPTION 'INVALID_AMOUNT' USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM 1
+  FROM public.user_profiles
+  WHERE id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'USER_NOT_FOUND' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_idempotency_key IS NOT NULL THEN
+    SELECT t.id, t.amount, t.balance_after INTO v_existing
+    FROM public.credit_transactions t
+    WHERE t.user_id = p_user_id
+      AND t.transaction_type = p_transaction_type
+      AND t.idempotency_key = p_idempotency_key;
+
+    IF FOUND THEN
+      IF v_existing.amount <> p_amount THEN
+        RAISE EXCEPTION 'IDEMPOTENCY_KEY_CONFLICT' USING ERRCODE = '23505';
+      END IF;
+
+      transaction_id := v_existing.id;
+      new_balance := v_existing.balance_after;
+      replayed := true;
+      RETURN NEXT;
+      RETURN;
+    END IF;
+  END IF;
+
+  -- 先结算已到期批次，保证余额检查基于有效积分
+  PERFORM public.expire_user_credit_lots(p_user_id);
+
+  SELECT credits INTO v_balance
+  FROM public.user_profiles
+  WHERE id = p_user_id;
+
+  -- 扣费不能占用其他任务已冻结的积分
+  IF v_balance + p_amount - CASE WHEN p_amount < 0 THEN public.active_credit_holds(p_user_id) ELSE 0 END < 0 THEN
+    RAISE EXCEPTION 'INSUFFICIENT_CREDITS' USING ERRCODE = 'P0001';
+  END IF;
+
+  v_balance := v_balance + p_amount;
+
+  UPDATE public.user_profiles
+  SET credits = v_balance,
+      total_credits_spent = CASE
+        WHEN p_transaction_type = 'usage' THEN total_credits_spent - p_amount
+        WHEN p_transaction_type = 'refund' THEN GREATEST(0, total_credits_spent - p_amount)
+        ELSE total_credits_spent
+      END,
+      total_videos_created = CASE
+        WHEN p_transaction_type = 'usage' THEN total_videos_created + 1
+        ELSE total_videos_created
+      END
+  WHERE id = p_user_id;
+
+  INSERT INTO public.credit_transactions (
+    user_id, transaction_type, amount, description, metadata, balance_after, idempotency_key,
+    task_id, related_object_type, related_object_id
+  )
+  VALUES (
+    p_user_id, p_transaction_type, p_amount, p_description, COALESCE(p_metadata, '{}'::jsonb), v_balance, p_idempotency_key,
+    p_task_id, p_related_object_type, p_related_object_id
+  )
+  RETURNING id INTO transaction_id;
+
+  IF p_amount < 0 THEN
+    v_remaining := -p_amount;
+    -- 已到期但被冻结保护 (未被 expire_user_credit_lots 过期) 的批次只能由正在扣除的预留消耗，且优先消耗
+    v_expired_allowance := public.capturing_credit_holds(p_user_id);
+
+    FOR v_lot IN
+      SELECT id, remaining_amount, (expires_at IS NOT NULL AND expires_at <= now()) AS is_expired
+      FROM public.credit_lots
+      WHERE user_id = p_user_id
+        AND remaining_amount > 0
+      ORDER BY expires_at ASC NULLS LAST, created_at ASC
+      FOR UPDATE
+    LOOP
+      EXIT WHEN v_remaining = 0;
+      v_take := LEAST(v_remaining, v_lot.remaining_amount);
+
+      IF v_lot.is_expired THEN
+        v_take := LEAST(v_take, v_expired_allowance);
+        CONTINUE WHEN v_take = 0;
+        v_expired_allowance := v_expired_allowance - v_take;
+      END IF;
+
+      UPDATE public.credit_lots
+      SET remaining_amount = remaining_amount - v_take
+      WHERE id = v_lot.id;
+
+      INSERT INTO public.credit_lot_consumptions (transaction_id, lot_id, amount)
+      VALUES (transaction_id, v_lot.id, v_take);
+
+      v_remaining := v_remaining - v_take;
+    END LOOP;
+
+    IF v_remaining > 0 THEN
+      RAISE EXCEPTION 'CREDIT_LOTS_OUT_OF_SYNC' USING ERRCODE = 'P0001';
+    END IF;
+  ELSE
+    v_remaining := p_amount;
+
+    -- 退款：回补同一幂等键 (task ID) 的扣费所消耗的批次
+    IF p_transaction_type = 'refund' AND p_idempotency_key IS NOT NULL THEN
+      FOR v_lot IN
+        SELECT c.lot_id, c.amount
+        FROM public.credit_lot_consumptions c
+        JOIN public.credit_transactions t ON t.id = c.transaction_id
+        WHERE t.user_id = p_user_id
+          AND t.transaction_type = 'usage'
+          AND t.idempotency_key = p_idempotency_key
+        ORDER BY c.created_at DESC
+      LOOP
+        EXIT WHEN v_remaining = 0;
+        v_take := LEAST(v_remaining, v_lot.amount);
+
+        UPDATE public.credit_lots
+        SET remaining_amount = remaining_amount + v_take
+        WHERE id = v_lot.lot_id;
+
+        v_remaining := v_remaining - v_take;
+      END LOOP;
+    END IF;
+
+    IF v_remaining > 0 THEN
+      INSERT INTO public.credit_lots (user_id, source, original_amount, remaining_amount, expires_at, transaction_id)
+      VALUES (
+        p_user_id,
+        COALESCE(p_lot_source, p_transaction_type),
+        v_remaining,
+        v_remaining,
+        p_lot_expires_at,
+        transaction_id
+      );
+    END IF;
+  END IF;
+
+  new_balance := v_balance;
+  replayed := false;
+  RETURN NEXT;
+END;
+$$;
+
+-- 仅允许服务端 (service_role) 调用
+REVOKE EXECUTE ON FUNCTION public.expire_user_credit_lots(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.apply_credit_transaction(uuid, integer, text, text, jsonb, text, text, timestamp with time zone, text, text, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.apply_credit_transaction(uuid, integer, text, text, jsonb, text, text, timestamp with time zone, text, text, uuid) TO service_role;
+
+-- 对账视图：余额应等于流水金额之和，discrepancy 非 0 表示账目不平
+CREATE OR REPLACE VIEW public.credit_ledger_reconciliation
+WITH (security_invoker = true) AS
+SELECT
+  p.id AS user_id,
+  p.credits AS profile_balance,
+  COALESCE(SUM(t.amount), 0)::integer AS ledger_balance,
+  (p.credits - COALESCE(SUM(t.amount), 0))::integer AS discrepancy
+FROM public.user_profiles p
+LEFT JOIN public.credit_transactions t ON t.user_id = p.id
+GROUP BY p.id, p.credits;
+
+-- 为已有余额但流水不全的用户补记期初调整，使余额可由流水推导
+INSERT INTO public.credit_transactions (user_id, transaction_type, amount, description, balance_after)
+SELECT user_id, 'adjustment', discrepancy, 'Opening balance', profile_balance
+FROM public.credit_ledger_reconciliation
+WHERE discrepancy <> 0;
+
+-- 为已有余额补建永不过期的期初批次，使批次剩余之和等于余额
+INSERT INTO public.credit_lots (user_id, source, original_amount, remaining_amount)
+SELECT p.id, 'adjustment', p.credits - COALESCE(l.remaining, 0), p.credits - COALESCE(l.remaining, 0)
+FROM public.user_profiles p
+LEFT JOIN (
+  SELECT user_id, SUM(remaining_amount)::integer AS remaining
+  FROM public.credit_lots
+  GROUP BY user_id
+) l ON l.user_id = p.id
+WHERE p.credits - COALESCE(l.remaining, 0) > 0;
+
+-- 冻结积分：可用余额 = 余额 - 冻结中的积分，不足时拒绝
+CREATE OR REPLACE FUNCTION public.place_credit_hold(
+  p_user_id uuid,
+  p_amount integer,
+  p_description text DEFAULT NULL,
+  p_ttl_seconds integer DEFAULT 3600,
+  p_idempotency_key text DEFAULT NULL
+)
+RETURNS TABLE (hold_id uuid, available_balance integer, replayed boolean)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_balance integer;
+  v_available integer;
+BEGIN
+  IF p_amount <= 0 THEN
+    RAISE EXCEPTION 'INVALID_AMOUNT' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT credits INTO v_balance
+  FROM public.user_profiles
+  WHERE id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'USER_NOT_FOUND' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- 先结算已到期批次，避免冻结已过期的积分
+  PERFORM public.expire_user_credit_lots(p_user_id);
+
+  SELECT credits INTO v_balance
+  FROM public.user_profiles
+  WHERE id = p_user_id;
+
+  v_available := v_balance - public.active_credit_holds(p_user_id);
+
+  IF p_idempotency_key IS NOT NULL THEN
+    -- 已到期但尚未清理的同键预留先标记为过期，不再参与重放
+    UPDATE public.credit_holds
+    SET status = 'expired', resolved_at = now(), updated_at = now()
+    WHERE user_id = p_user_id
+      AND idempotency_key = p_idempotency_key
+      AND status = 'held'
+      AND expires_at <= now();
+
+    -- 只重放仍有效的预留；已释放/过期的预留视为上一次尝试已结束
+    SELECT h.id INTO hold_id
+    FROM public.credit_holds h
+    WHERE h.user_id = p_user_id
+      AND h.idempotency_key = p_idempotency_key
+      AND h.status = ANY (ARRAY['held'::text, 'captured'::text]);
+
+    IF FOUND THEN
+      available_balance := v_available;
+      replayed := true;
+      RETURN NEXT;
+      RETURN;
+    END IF;
+  END IF;
+
+  IF v_available < p_amount THEN
+    RAISE EXCEPTION 'INSUFFICIENT_CREDITS' USING ERRCODE = 'P0001';
+  END IF;
+
+  INSERT INTO public.credit_holds (user_id, amount, description, idempotency_key, expires_at)
+  VALUES (p_user_id, p_amount, p_description, p_idempotency_key, now() + make_interval(secs => p_ttl_seconds))
+  RETURNING id INTO hold_id;
+
+  available_balance := v_available - p_amount;
+  replayed := false;
+  RETURN NEXT;
+END;
+$$;
+
+-- 扣除冻结积分：将预留转为 usage 流水 (以 task_id 为幂等键，避免与直接扣费重复)
+CREATE OR REPLACE FUNCTION public.capture_credit_hold(p_hold_id uuid)
+RETURNS TABLE (transaction_id uuid, new_balance integer, replayed boolean)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_hold public.credit_holds%ROWTYPE;
+  v_result record;
+BEGIN
+  SELECT * INTO v_hold
+  FROM public.credit_holds
+  WHERE id = p_hold_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'HOLD_NOT_FOUND' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_hold.status = 'captured' THEN
+    transaction_id := v_hold.transaction_id;
+    SELECT t.balance_after INTO new_balance FROM public.credit_transactions t WHERE t.id = v_hold.transaction_id;
+    replayed := true;
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  -- 已释放的预留 (任务已失败/退款) 不能再扣费；
+  -- 超时后才完成的任务 (expired 或已过 expires_at) 冻结已失效，按当前可用余额扣费，余额不足时由 apply_credit_transaction 拒绝
+  IF v_hold.status NOT IN ('held', 'expired') THEN
+    RAISE EXCEPTION 'HOLD_NOT_ACTIVE' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- 先结束预留，使扣费时的可用余额检查不再计入本笔冻结
+  UPDATE public.credit_holds
+  SET status = 'captured', resolved_at = now(), updated_at = now()
+  WHERE id = p_hold_id;
+
+  SELECT * INTO v_result
+  FROM public.apply_credit_transaction(
+    p_user_id => v_hold.user_id,
+    p_amount => -v_hold.amount,
+    p_transaction_type => 'usage',
+    p_description => v_hold.description,
+    p_metadata => jsonb_build_object('hold_id', v_hold.id),
+    p_idempotency_key => COALESCE(v_hold.task_id, v_hold.id::text),
+    p_task_id => v_hold.task_id
+  );
+
+  UPDATE public.credit_holds
+  SET transaction_id = v_result.transaction_id
+  WHERE id = p_hold_id;
+
+  transaction_id := v_result.transaction_id;
+  new_balance := v_result.new_balance;
+  replayed := v_result.replayed;
+  RETURN NEXT;
+END;
+$$;
+
+-- 释放冻结积分 (生成失败)，已结束的预留不受影响
+CREATE OR REPLACE FUNCTION public.release_credit_hold(p_hold_id uuid)
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH released AS (
+    UPDATE public.credit_holds
+    SET status = 'released', resolved_at = now(), updated_at = now()
+    WHERE id = p_hold_id AND status = 'held'
+    RETURNING id
+  )
+  SELECT EXISTS (SELECT 1 FROM released);
+$$;
+
+-- 清理超时预留 (回调丢失时自动退还可用余额)，建议通过 pg_cron 定时执行
+CREATE OR REPLACE FUNCTION public.expire_credit_holds()
+RETURNS integer
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH expired AS (
+    UPDATE public.credit_holds
+    SET status = 'expired', resolved_at = now(), updated_at = now()
+    WHERE status = 'held' AND expires_at <= now()
+    RETURNING id
+  )
+  SELECT COUNT(*)::integer FROM expired;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.place_credit_hold(uuid, integer, text, integer, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.capture_credit_hold(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.release_credit_hold(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.expire_credit_holds() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.place_credit_hold(uuid, integer, text, integer, text) TO service_role;
+GRANT EXECUTE ON FUNCTION public.capture_credit_hold(uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION public.release_credit_hold(uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION public.expire_credit_holds() TO service_role;
+
+-- 全量过期清理：逐个用户加锁结算到期批次，建议通过 pg_cron 每小时执行
+CREATE OR REPLACE FUNCTION public.expire_credit_lots()
+RETURNS TABLE (users_affected integer, credits_expired integer)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid;
+  v_expired integer;
+BEGIN
+  users_affected := 0;
+  credits_expired := 0;
+
+  FOR v_user_id IN
+    SELECT DISTINCT user_id
+    FROM public.credit_lots
+    WHERE remaining_amount > 0
+      AND expires_at IS NOT NULL
+      AND expires_at <= now()
+  LOOP
+    PERFORM 1 FROM public.user_profiles WHERE id = v_user_id FOR UPDATE;
+    v_expired := public.expire_user_credit_lots(v_user_id);
+
+    -- 仅被冻结积分占用的批次本轮不过期
+    IF v_expired > 0 THEN
+      credits_expired := credits_expired + v_expired;
+      users_affected := users_affected + 1;
+    END IF;
+  END LOOP;
+
+  RETURN NEXT;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.expire_credit_lots() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.expire_credit_lots() TO service_role;
+
+-- 推荐计数原子累加 (推荐码、推荐记录与统计表)，避免并发回调读改写丢失增量
+CREATE OR REPLACE FUNCTION public.increment_referral_counters(
+  p_referrer_id uuid,
+  p_referral_id uuid DEFAULT NULL,
+  p_credits integer DEFAULT 0,
+  p_sent integer DEFAULT 0,
+  p_successful integer DEFAULT 0,
+  p_pending integer DEFAULT 0
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.referral_codes
+  SET total_referrals = COALESCE(total_referrals, 0) + p_sent,
+      successful_referrals = COALESCE(successful_referrals, 0) + p_successful,
+      total_credits_earned = COALESCE(total_credits_earned, 0) + p_credits,
+      updated_at = now()
+  WHERE user_id = p_referrer_id;
+
+  IF p_referral_id IS NOT NULL AND p_credits <> 0 THEN
+    UPDATE public.user_referrals
+    SET credits_awarded = COALESCE(credits_awarded, 0) + p_credits,
+        updated_at = now()
+    WHERE id = p_referral_id;
+  END IF;
+
+  INSERT INTO public.user_free_credits_stats AS s (
+    user_id, total_referrals_sent, successful_referrals, pending_referrals, total_referral_credits, total_free_credits_earned
+  )
+  VALUES (p_referrer_id, p_sent, p_successful, GREATEST(0, p_pending), p_credits, p_credits)
+  ON CONFLICT (user_id) DO UPDATE
+  SET total_referrals_sent = COALESCE(s.total_referrals_sent, 0) + p_sent,
+      successful_referrals = COALESCE(s.successful_referrals, 0) + p_successful,
+      pending_referrals = GREATEST(0, COALESCE(s.pending_referrals, 0) + p_pending),
+      total_referral_credits = COALESCE(s.total_referral_credits, 0) + p_credits,
+      total_free_credits_earned = COALESCE(s.total_free_credits_earned, 0) + p_credits,
+      updated_at = now();
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.increment_referral_counters(uuid, uuid, integer, integer, integer, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.increment_referral_counters(uuid, uuid, integer, integer, integer, integer) TO service_role;
+
+-- 发放推荐奖励：在同一事务中校验推荐状态、发放积分 (幂等键 referral:<id>:<类型>)、推进状态并累加计数
+-- registration 要求推荐已通过审核；first_payment 将 registered (或中断遗留的 converted) 推进为 credited；
+-- 其他类型 (如订阅) 只在已 credited 的推荐上发放。状态不符时抛出 REFERRAL_NOT_ELIGIBLE
+CREATE OR REPLACE FUNCTION public.award_referral_reward(
+  p_referral_id uuid,
+  p_reward_type text,
+  p_credits integer,
+  p_description text DEFAULT NULL,
+  p_lot_expires_at timestamp with time zone DEFAULT NULL
+)
+RETURNS TABLE (new_balance integer, replayed boolean, credited boolean)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_referral public.user_referrals%ROWTYPE;
+  v_result record;
+BEGIN
+  SELECT * INTO v_referral
+  FROM public.user_referrals
+  WHERE id = p_referral_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'REFERRAL_NOT_FOUND' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_referral.status = 'pending'
+    OR (p_reward_type = 'first_payment' AND v_referral.status = 'credited')
+    OR (p_reward_type NOT IN ('registration', 'first_payment') AND v_referral.status <> 'credited') THEN
+    RAISE EXCEPTION 'REFERRAL_NOT_ELIGIBLE' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT * INTO v_result
+  FROM public.apply_credit_transaction(
+    p_user_id => v_referral.referrer_id,
+    p_amount => p_credits,
+    p_transaction_type => 'bonus',
+    p_description => COALESCE(p_description, 'Referral reward (' || p_reward_type || ')'),
+    p_metadata => jsonb_build_object('free_credits_type', 'referral'),
+    p_idempotency_key => 'referral:' || p_referral_id || ':' || p_reward_type,
+    p_lot_source => 'referral',
+    p_lot_expires_at => p_lot_expires_at,
+    p_related_object_type => 'referral',
+    p_related_object_id => p_referral_id
+  );
+
+  new_balance := v_result.new_balance;
+  replayed := v_result.replayed;
+  credited := p_reward_type = 'first_payment';
+
+  IF credited THEN
+    UPDATE public.user_referrals
+    SET status = 'credited',
+        conversion_date = COALESCE(conversion_date, now()),
+        credited_date = now(),
+        updated_at = now()
+    WHERE id = p_referral_id;
+  END IF;
+
+  PERFORM public.increment_referral_counters(
+    p_referrer_id => v_referral.referrer_id,
+    p_referral_id => p_referral_id,
+    p_credits => CASE WHEN replayed THEN 0 ELSE p_credits END,
+    p_successful => CASE WHEN credited THEN 1 ELSE 0 END,
+    p_pending => CASE WHEN credited THEN -1 ELSE 0 END
+  );
+
+  RETURN NEXT;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.award_referral_reward(uuid, text, integer, text, timestamp with time zone) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.award_referral_reward(uuid, text, integer, text, timestamp with time zone) TO service_role;
+
+-- 签到：在同一事务中写入签到记录、发放积分 (积分批次) 并原子累加签到统计
+-- 锁定用户余额行串行化同一用户的并发签到，同一天重复签到时抛出 ALREADY_CHECKED_IN
+CREATE OR REPLACE FUNCTION public.perform_check_in(
+  p_user_id uuid,
+  p_check_in_date date,
+  p_timezone text DEFAULT 'UTC',
+  p_default_credits integer DEFAULT 1,
+  p_lot_expires_at timestamp with time zone DEFAULT NULL
+)
+RETURNS TABLE (
+  check_in_id uuid,
+  consecutive_days integer,
+  day_sequence integer,
+  credits_earned integer,
+  is_bonus_reward boolean,
+  reward_title text,
+  new_balance integer
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_last record;
+  v_reward record;
+  v_result record;
+BEGIN
+  PERFORM 1
+  FROM public.user_profiles
+  WHERE id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'USER_NOT_FOUND' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT c.check_in_date, c.consecutive_days INTO v_last
+  FROM public.user_check_ins c
+  WHERE c.user_id = p_user_id
+  ORDER BY c.check_in_date DESC
+  LIMIT 1;
+
+  IF FOUND AND v_last.check_in_date >= p_check_in_date THEN
+    RAISE EXCEPTION 'ALREADY_CHECKED_IN' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- 连续签到：昨天签到过则累加，否则从第 1 天重新开始；7 天为一个奖励周期
+  consecutive_days := CASE
+    WHEN v_last.check_in_date = p_check_in_date - 1 THEN v_last.consecutive_days + 1
+    ELSE 1
+  END;
+  day_sequence := ((consecutive_days - 1) % 7) + 1;
+
+  SELECT r.credits_reward, r.is_special_reward, r.reward_title INTO v_reward
+  FROM public.check_in_rewards r
+  WHERE r.day_sequence = perform_check_in.day_sequence
+    AND r.is_active = true;
+
+  credits_earned := COALESCE(v_reward.credits_reward, p_default_credits);
+  is_bonus_reward := COALESCE(v_reward.is_special_reward, false);
+  reward_title := v_reward.reward_title;
+
+  INSERT INTO public.user_check_ins (user_id, check_in_date, credits_earned, consecutive_days, is_bonus_reward, timezone)
+  VALUES (p_user_id, p_check_in_date, credits_earned, consecutive_days, is_bonus_reward, p_timezone)
+  RETURNING id INTO check_in_id;
+
+  IF credits_earned > 0 THEN
+    SELECT * INTO v_result
+    FROM public.apply_credit_transaction(
+      p_user_id => p_user_id,
+      p_amount => credits_earned,
+      p_transaction_type => 'bonus',
+      p_description => COALESCE(reward_title, 'Daily check-in day ' || day_sequence),
+      p_metadata => jsonb_build_object('free_credits_type', 'check_in'),
+      p_idempotency_key => check_in_id::text,
+      p_lot_source => 'check_in',
+      p_lot_expires_at => p_lot_expires_at,
+      p_related_object_type => 'check_in',
+      p_related_object_id => check_in_id
+    );
+    new_balance := v_result.new_balance;
+  ELSE
+    SELECT credits INTO new_balance FROM public.user_profiles WHERE id = p_user_id;
+  END IF;
+
+  INSERT INTO public.user_free_credits_stats AS s (
+    user_id, total_check_ins, current_consecutive_days, longest_consecutive_days,
+    last_check_in_date, total_check_in_credits, total_free_credits_earned
+  )
+  VALUES (p_user_id, 1, consecutive_days, consecutive_days, p_check_in_date, credits_earned, credits_earned)
+  ON CONFLICT (user_id) DO UPDATE
+  SET total_check_ins = COALESCE(s.total_check_ins, 0) + 1,
+      current_consecutive_days = EXCLUDED.current_consecutive_days,
+      longest_consecutive_days = GREATEST(COALESCE(s.longest_consecutive_days, 0), EXCLUDED.longest_consecutive_days),
+      last_check_in_date = EXCLUDED.last_check_in_date,
+      total_check_in_credits = COALESCE(s.total_check_in_credits, 0) + EXCLUDED.total_check_in_credits,
+      total_free_credits_earned = COALESCE(s.total_free_credits_earned, 0) + EXCLUDED.total_free_credits_earned,
+      updated_at = now();
+
+  RETURN NEXT;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.perform_check_in(uuid, date, text, integer, timestamp with time zone) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.perform_check_in(uuid, date, text, integer, timestamp with time zone) TO service_role;
@@ -0,0 +1,256 @@
+-- 视频生成任务 - 可复用数据库模板
+-- 适用于通过第三方服务商 (回调或轮询) 异步生成视频的项目
+
+-- 生成任务表 (状态流转: pending → processing → completed / failed)
+CREATE TABLE public.generation_tasks (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  -- 服务商返回的任务ID
+  task_id text NOT NULL UNIQUE,
+  user_id uuid,
+  provider text NOT NULL,
+  model text,
+  status text NOT NULL DEFAULT 'pending'::text CHECK (status = ANY (ARRAY['pending'::text, 'processing'::text, 'completed'::text, 'failed'::text])),
+  -- 生成参数快照 (prompt、时长、画质等)
+  options jsonb NOT NULL DEFAULT '{}'::jsonb,
+  -- 调用方提供的幂等键，同一个键只会向服务商提交一次
+  idempotency_key text,
+  -- 提交到服务商的请求次数 (含重试)
+  attempts integer NOT NULL DEFAULT 0,
+  -- 提交时按定价规则计算的积分 (扣费与视频记录使用同一数值)
+  credit_cost integer,
+  last_error text,
+  -- 生成结果 (自有存储中的对象键；存储为私有，查询状态时再签发临时地址)
+  result_video_key text,
+  result_thumbnail_key text,
+  video_id uuid,
+  -- 回调地址令牌的随机数 (令牌 = HMAC(密钥, 随机数)，每次提交不同，泄露的回调地址只对本任务有效)
+  callback_nonce text,
+  -- 首次收到回调的时间 (重复回调据此去重；任务未结束且认领超时后可被重新认领)
+  callback_received_at timestamp with time zone,
+  completed_at timestamp with time zone,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now(),
+
+  CONSTRAINT generation_tasks_pkey PRIMARY KEY (id),
+  CONSTRAINT generation_tasks_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id)
+);
+
+-- Row Level Security 策略
+ALTER TABLE public.generation_tasks ENABLE ROW LEVEL SECURITY;
+
+-- 用户只能查看自己的生成任务
+CREATE POLICY "Users can view own generation tasks" ON public.generation_tasks
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- 索引优化
+CREATE INDEX idx_generation_tasks_user_id ON public.generation_tasks(user_id, created_at DESC);
+CREATE INDEX idx_generation_tasks_status ON public.generation_tasks(status, created_at);
+-- 统计用户在途任务 (队列并发上限)
+CREATE INDEX idx_generation_tasks_user_in_flight ON public.generation_tasks(user_id)
+  WHERE status = ANY (ARRAY['pending'::text, 'processing'::text]);
+-- 幂等键由调用方提供，只在同一用户范围内唯一 (无用户的任务共用一个范围)
+CREATE UNIQUE INDEX idx_generation_tasks_idempotency_key ON public.generation_tasks(user_id, idempotency_key) NULLS NOT DISTINCT
+  WHERE idempotency_key IS NOT NULL;
+-- 查找迟迟未收到回调 (或回调处理中断) 的任务
+CREATE INDEX idx_generation_tasks_awaiting_callback ON public.generation_tasks(created_at)
+  WHERE status = ANY (ARRAY['pending'::text, 'processing'::text]);
+
+-- 触发器：自动更新 updated_at 字段
+CREATE TRIGGER update_generation_tasks_updated_at
+  BEFORE UPDATE ON public.generation_tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- 生成作业队列 (位于服务商客户端之前，由 worker 领取执行)
+-- 状态流转: queued → running → succeeded / failed / dead_lettered，排队中可取消 (cancelled)
+CREATE TABLE public.generation_jobs (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  status text NOT NULL DEFAULT 'queued'::text CHECK (status = ANY (ARRAY['queued'::text, 'running'::text, 'succeeded'::text, 'failed'::text, 'cancelled'::text, 'dead_lettered'::text])),
+  -- 入队时的套餐快照，决定优先级和单用户并发上限
+  plan_type text NOT NULL DEFAULT 'free'::text,
+  priority integer NOT NULL DEFAULT 0,
+  max_concurrent integer NOT NULL DEFAULT 1 CHECK (max_concurrent > 0),
+  -- 生成参数 (VideoGenerationOptions，不含计费信息)
+  options jsonb NOT NULL,
+  credits integer NOT NULL DEFAULT 0 CHECK (credits >= 0),
+  attempts integer NOT NULL DEFAULT 0,
+  max_attempts integer NOT NULL DEFAULT 3,
+  run_after timestamp with time zone NOT NULL DEFAULT now(),
+  -- worker 租约，过期后作业重新排队
+  locked_by text,
+  lease_expires_at timestamp with time zone,
+  task_id text,
+  last_error text,
+  cancelled_at timestamp with time zone,
+  completed_at timestamp with time zone,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now(),
+
+  CONSTRAINT generation_jobs_pkey PRIMARY KEY (id),
+  CONSTRAINT generation_jobs_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id)
+);
+
+ALTER TABLE public.generation_jobs ENABLE ROW LEVEL SECURITY;
+
+-- 用户只能查看自己的作业
+CREATE POLICY "Users can view own generation jobs" ON public.generation_jobs
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE INDEX idx_generation_jobs_queued ON public.generation_jobs(priority DESC, created_at)
+  WHERE status = 'queued'::text;
+CREATE INDEX idx_generation_jobs_user_status ON public.generation_jobs(user_id, status);
+CREATE INDEX idx_generation_jobs_lease ON public.generation_jobs(lease_expires_at)
+  WHERE status = 'running'::text;
+
+CREATE TRIGGER update_generation_jobs_updated_at
+  BEFORE UPDATE ON public.generation_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- 领取下一个作业
+-- 排序: 优先级 + 等待分钟数 (老化，避免低优先级作业饿死)，同优先级下正在运行作业少的用户优先
+-- 同一用户的并发检查通过 advisory lock 串行化，超过 max_concurrent 的用户本轮跳过
+CREATE OR REPLACE FUNCTION public.claim_generation_job(
+  p_worker_id text,
+  p_lease_seconds integer DEFAULT 300
+)
+RETURNS SETOF public.generation_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_candidate record;
+  v_running integer;
+  v_job public.generation_jobs;
+BEGIN
+  -- worker 崩溃后租约过期的作业重新排队
+  UPDATE public.generation_jobs
+  SET status = 'queued', locked_by = NULL, lease_expires_at = NULL, updated_at = now()
+  WHERE status = 'running' AND lease_expires_at < now();
+
+  -- 每个用户只取排名最高的一个作业，并排除已达并发上限的用户，
+  -- 避免某个用户的大量排队作业占满候选列表而饿死其他用户
+  -- 并发数 = 提交中的作业 + 已提交、仍在服务商处生成的任务 (pending / processing)
+  FOR v_candidate IN
+    SELECT c.id, c.user_id, c.max_concurrent
+    FROM (
+      SELECT DISTINCT ON (j.user_id)
+        j.id,
+        j.user_id,
+        j.max_concurrent,
+        j.created_at,
+        j.priority + floor(extract(epoch FROM now() - j.created_at) / 60) AS score,
+        COALESCE(r.running, 0) AS running
+      FROM public.generation_jobs j
+      LEFT JOIN (
+        SELECT a.user_id, count(*) AS running
+        FROM (
+          SELECT user_id FROM public.generation_jobs WHERE status = 'running'
+          UNION ALL
+          SELECT user_id FROM public.generation_tasks WHERE status = ANY (ARRAY['pending'::text, 'processing'::text])
+        ) a
+        GROUP BY a.user_id
+      ) r ON r.user_id = j.user_id
+      WHERE j.status = 'queued'
+        AND j.run_after <= now()
+        AND COALESCE(r.running, 0) < j.max_concurrent
+      ORDER BY j.user_id, score DESC, j.created_at ASC
+    ) c
+    ORDER BY c.score DESC, c.running ASC, c.created_at ASC
+    LIMIT 50
+  LOOP
+    PERFORM pg_advisory_xact_lock(hashtext('generation_jobs:' || v_candidate.user_id::text));
+
+    SELECT
+      (SELECT count(*) FROM public.generation_jobs WHERE user_id = v_candidate.user_id AND status = 'running')
+      + (SELECT count(*) FROM public.generation_tasks
+         WHERE user_id = v_candidate.user_id AND status = ANY (ARRAY['pending'::text, 'processing'::text]))
+    INTO v_running;
+
+    CONTINUE WHEN v_running >= v_candidate.max_concurrent;
+
+    UPDATE public.generation_jobs
+    SET status = 'running',
+        locked_by = p_worker_id,
+        lease_expires_at = now() + make_interval(secs => p_lease_seconds),
+        attempts = attempts + 1,
+        updated_at = now()
+    WHERE id = v_candidate.id AND status = 'queued'
+    RETURNING * INTO v_job;
+
+    IF FOUND THEN
+      RETURN NEXT v_job;
+      RETURN;
+    END IF;
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_generation_job(text, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_generation_job(text, integer) TO service_role;
+
+-- 视频定价规则 (积分)
+-- 每次生成选取匹配度最高的启用规则: NULL 字段表示匹配任意值，非 NULL 字段越多越优先
+-- 调整价格只需修改本表，无需改代码
+CREATE TABLE public.video_pricing_rules (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  provider text NOT NULL,
+  model text,
+  duration integer,
+  quality text,
+  image_to_video boolean,
+  credits integer NOT NULL CHECK (credits >= 0),
+  description text,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now(),
+
+  CONSTRAINT video_pricing_rules_pkey PRIMARY KEY (id),
+  CONSTRAINT video_pricing_rules_unique UNIQUE NULLS NOT DISTINCT (provider, model, duration, quality, image_to_video)
+);
+
+ALTER TABLE public.video_pricing_rules ENABLE ROW LEVEL SECURITY;
+
+-- 定价对所有人可见
+CREATE POLICY "Anyone can view active pricing rules" ON public.video_pricing_rules
+  FOR SELECT USING (is_active = true);
+
+CREATE TRIGGER update_video_pricing_rules_updated_at
+  BEFORE UPDATE ON public.video_pricing_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- 默认定价 (根据服务商成本调整)
+INSERT INTO public.video_pricing_rules (provider, model, duration, quality, image_to_video, credits, description) VALUES
+  ('runway', NULL, NULL, NULL, NULL, 20, 'Runway 基础价'),
+  ('runway', NULL, 8, NULL, NULL, 30, 'Runway 8秒'),
+  ('runway', NULL, 5, '1080p', NULL, 30, 'Runway 5秒 1080p'),
+  ('veo3', 'veo3_fast', NULL, NULL, NULL, 30, 'VEO3 Fast 基础价'),
+  ('veo3', 'veo3_fast', NULL, '1080p', NULL, 40, 'VEO3 Fast 1080p'),
+  ('veo3', 'veo3', NULL, NULL, NULL, 100, 'VEO3 Quality 基础价'),
+  ('veo3', 'veo3', NULL, '1080p', NULL, 120, 'VEO3 Quality 1080p');
+
+-- 视频表补充字段 (videos 表由具体项目定义，这里只追加生成元数据)
+-- requested_duration 为请求时长，duration_seconds 及编码信息由 ffprobe 探测
+ALTER TABLE public.videos
+  ADD COLUMN IF NOT EXISTS model text,
+  ADD COLUMN IF NOT EXISTS requested_duration integer,
+  ADD COLUMN IF NOT EXISTS duration_seconds numeric,
+  ADD COLUMN IF NOT EXISTS width integer,
+  ADD COLUMN IF NOT EXISTS height integer,
+  ADD COLUMN IF NOT EXISTS video_codec text,
+  ADD COLUMN IF NOT EXISTS audio_codec text,
+  ADD COLUMN IF NOT EXISTS bitrate bigint,
+  ADD COLUMN IF NOT EXISTS frame_rate numeric,
+  -- 存储对象键 (存储为私有，播放/下载地址按请求签名生成，不再保存永久链接)
+  ADD COLUMN IF NOT EXISTS video_key text,
+  ADD COLUMN IF NOT EXISTS thumbnail_key text,
+  -- 无水印原片 (免费/试用用户交付带水印的副本，升级后 video_key 切换为原片)
+  ADD COLUMN IF NOT EXISTS master_key text,
+  ADD COLUMN IF NOT EXISTS master_file_size bigint,
+  ADD COLUMN IF NOT EXISTS watermarked boolean NOT NULL DEFAULT false,
+  -- HLS 自适应码率: 主播放列表键与各档位 [{name, width, height, bandwidth, playlistKey}]
+  ADD COLUMN IF NOT EXISTS hls_master_key text,
+  ADD COLUMN IF NOT EXISTS renditions jsonb NOT NULL DEFAULT '[]'::jsonb;
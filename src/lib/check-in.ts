@@ -0,0 +1,193 @@
+import { createServiceClient } from './supabase/server';
+import { getDefaultLotExpiry } from './credits-manager';
+
+// Mirrored by the perform_check_in database function
+const CHECK_IN_CYCLE_DAYS = 7;
+const DEFAULT_CHECK_IN_CREDITS = 1;
+
+export interface CheckInResult {
+  checkInId: string;
+  checkInDate: string;
+  consecutiveDays: number;
+  daySequence: number;
+  creditsEarned: number;
+  isBonusReward: boolean;
+  rewardTitle?: string;
+}
+
+export interface CheckInStatus {
+  timezone: string;
+  today: string;
+  checkedInToday: boolean;
+  currentConsecutiveDays: number;
+  nextDaySequence: number;
+}
+
+/**
+ * Format a date as YYYY-MM-DD in the given IANA timezone (falls back to UTC)
+ */
+function getLocalDate(date: Date, timeZone: string): string {
+  try {
+    return new Intl.DateTimeFormat('en-CA', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit'
+    }).format(date);
+  } catch {
+    return date.toISOString().slice(0, 10);
+  }
+}
+
+function getPreviousDate(localDate: string): string {
+  const date = new Date(`${localDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() - 1);
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Position in the 7-day reward cycle; day 8 wraps back to day 1
+ */
+function getDaySequence(consecutiveDays: number): number {
+  return ((consecutiveDays - 1) % CHECK_IN_CYCLE_DAYS) + 1;
+}
+
+async function getUserTimezone(userId: string): Promise<string> {
+  const supabase = createServiceClient();
+  const { data } = await supabase
+    .from('user_profiles')
+    .select('timezone')
+    .eq('id', userId)
+    .single();
+
+  return data?.timezone || 'UTC';
+}
+
+async function getLastCheckIn(userId: string): Promise<{ check_in_date: string; consecutive_days: number } | null> {
+  const supabase = createServiceClient();
+  const { data, error } = await supabase
+    .from('user_check_ins')
+    .select('check_in_date, consecutive_days')
+    .eq('user_id', userId)
+    .order('check_in_date', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch last check-in: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Streak length if the user checks in on `today`
+ */
+function getNextConsecutiveDays(
+  lastCheckIn: { check_in_date: string; consecutive_days: number } | null,
+  today: string
+): number {
+  if (lastCheckIn && lastCheckIn.check_in_date === getPreviousDate(today)) {
+    return lastCheckIn.consecutive_days + 1;
+  }
+  return 1;
+}
+
+/**
+ * Get the user's check-in state for their local "today"
+ */
+export async function getCheckInStatus(
+  userId: string
+): Promise<{ success: boolean; status?: CheckInStatus; error?: string }> {
+  try {
+    const timezone = await getUserTimezone(userId);
+    const today = getLocalDate(new Date(), timezone);
+    const lastCheckIn = await getLastCheckIn(userId);
+    const checkedInToday = lastCheckIn?.check_in_date === today;
+
+    // A missed day breaks the streak even before the next check-in
+    const currentConsecutiveDays = checkedInToday || lastCheckIn?.check_in_date === getPreviousDate(today)
+      ? lastCheckIn!.consecutive_days
+      : 0;
+
+    return {
+      success: true,
+      status: {
+        timezone,
+        today,
+        checkedInToday,
+        currentConsecutiveDays,
+        nextDaySequence: getDaySequence(checkedInToday ? currentConsecutiveDays + 1 : getNextConsecutiveDays(lastCheckIn, today))
+      }
+    };
+
+  } catch (error) {
+    console.error('Error in getCheckInStatus:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+/**
+ * Check the user in for their local date and grant the reward for their position
+ * in the 7-day cycle. A second check-in on the same local date is refused.
+ * The `perform_check_in` function records the check-in, grants the credits and
+ * updates the stats in one transaction.
+ */
+export async function performCheckIn(
+  userId: string
+): Promise<{ success: boolean; checkIn?: CheckInResult; newCredits?: number; alreadyCheckedIn?: boolean; error?: string }> {
+  try {
+    const supabase = createServiceClient();
+    const timezone = await getUserTimezone(userId);
+    const today = getLocalDate(new Date(), timezone);
+    const lotExpiresAt = getDefaultLotExpiry('check_in');
+
+    const { data, error } = await supabase
+      .rpc('perform_check_in', {
+        p_user_id: userId,
+        p_check_in_date: today,
+        p_timezone: timezone,
+        p_default_credits: DEFAULT_CHECK_IN_CREDITS,
+        p_lot_expires_at: lotExpiresAt ? lotExpiresAt.toISOString() : null
+      })
+      .single<{
+        check_in_id: string;
+        consecutive_days: number;
+        day_sequence: number;
+        credits_earned: number;
+        is_bonus_reward: boolean;
+        reward_title: string | null;
+        new_balance: number;
+      }>();
+
+    if (error || !data) {
+      // The unique (user_id, check_in_date) constraint also rejects concurrent duplicates;
+      // other unique violations (e.g. an idempotency key conflict) are real errors
+      if (error?.message?.includes('ALREADY_CHECKED_IN') || error?.message?.includes('user_check_ins_unique_daily')) {
+        return { success: false, alreadyCheckedIn: true, error: 'Already checked in today' };
+      }
+      console.error('Error performing check-in:', error);
+      return { success: false, error: 'Failed to record check-in' };
+    }
+
+    console.log(`📅 User ${userId} checked in on ${today} (${timezone}), day ${data.day_sequence}, +${data.credits_earned} credits`);
+
+    return {
+      success: true,
+      checkIn: {
+        checkInId: data.check_in_id,
+        checkInDate: today,
+        consecutiveDays: data.consecutive_days,
+        daySequence: data.day_sequence,
+        creditsEarned: data.credits_earned,
+        isBonusReward: data.is_bonus_reward,
+        rewardTitle: data.reward_title || undefined
+      },
+      newCredits: data.new_balance
+    };
+
+  } catch (error) {
+    console.error('Error in performCheckIn:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
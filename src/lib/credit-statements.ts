@@ -0,0 +1,258 @@
+import { createServiceClient } from './supabase/server';
+import { CreditTransaction } from './credits-manager';
+
+export interface CreditHistoryEntry {
+  id: string;
+  transactionType: CreditTransaction['transactionType'];
+  amount: number;
+  balanceAfter: number;
+  description: string | null;
+  taskId?: string;
+  videoId?: string;
+  metadata: Record<string, unknown>;
+  createdAt: string;
+}
+
+export interface CreditHistoryFilters {
+  types?: CreditTransaction['transactionType'][];
+  from?: Date;
+  to?: Date;
+  taskId?: string;
+  videoId?: string;
+}
+
+export interface CreditStatement {
+  userId: string;
+  month: string;
+  openingBalance: number;
+  closingBalance: number;
+  totals: Partial<Record<CreditTransaction['transactionType'], number>>;
+  entries: CreditHistoryEntry[];
+}
+
+const MAX_PAGE_SIZE = 100;
+const STATEMENT_BATCH_SIZE = 1000;
+
+const HISTORY_COLUMNS =
+  'id, transaction_type, amount, balance_after, description, task_id, related_object_type, related_object_id, metadata, created_at';
+
+function toHistoryEntry(row: any): CreditHistoryEntry {
+  return {
+    id: row.id,
+    transactionType: row.transaction_type,
+    amount: row.amount,
+    balanceAfter: row.balance_after,
+    description: row.description,
+    taskId: row.task_id || undefined,
+    videoId: row.related_object_type === 'video' ? row.related_object_id : undefined,
+    metadata: row.metadata || {},
+    createdAt: row.created_at
+  };
+}
+
+/**
+ * Get a page of the user's credit history, newest first.
+ * Each entry carries the running balance after that transaction.
+ */
+export async function getCreditHistory(
+  userId: string,
+  options: { page?: number; pageSize?: number } & CreditHistoryFilters = {}
+): Promise<{ success: boolean; entries?: CreditHistoryEntry[]; total?: number; page?: number; pageSize?: number; error?: string }> {
+  try {
+    const supabase = createServiceClient();
+    const page = Math.max(1, options.page || 1);
+    const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, options.pageSize || 20));
+    const offset = (page - 1) * pageSize;
+
+    let query = supabase
+      .from('credit_transactions')
+      .select(HISTORY_COLUMNS, { count: 'exact' })
+      .eq('user_id', userId);
+
+    if (options.types && options.types.length > 0) {
+      query = query.in('transaction_type', options.types);
+    }
+    if (options.from) {
+      query = query.gte('created_at', options.from.toISOString());
+    }
+    if (options.to) {
+      query = query.lt('created_at', options.to.toISOString());
+    }
+    if (options.taskId) {
+      query = query.eq('task_id', options.taskId);
+    }
+    if (options.videoId) {
+      query = query.eq('related_object_type', 'video').eq('related_object_id', options.videoId);
+    }
+
+    const { data, error, count } = await query
+      .order('ledger_seq', { ascending: false })
+      .range(offset, offset + pageSize - 1);
+
+    if (error) {
+      console.error('Error fetching credit history:', error);
+      return { success: false, error: 'Failed to fetch credit history' };
+    }
+
+    return {
+      success: true,
+      entries: (data || []).map(toHistoryEntry),
+      total: count || 0,
+      page,
+      pageSize
+    };
+
+  } catch (error) {
+    console.error('Error in getCreditHistory:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+/**
+ * Build the statement for one billing month (UTC), e.g. `2026-09`
+ */
+export async function getCreditStatement(
+  userId: string,
+  month: string
+): Promise<{ success: boolean; statement?: CreditStatement; error?: string }> {
+  try {
+    const match = /^(\d{4})-(\d{2})$/.exec(month);
+    if (!match || Number(match[2]) < 1 || Number(match[2]) > 12) {
+      return { success: false, error: 'Month must be in YYYY-MM format' };
+    }
+
+    const start = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, 1));
+    const end = new Date(Date.UTC(Number(match[1]), Number(match[2]), 1));
+    const supabase = createServiceClient();
+
+    // Opening balance is the running balance of the last entry before the month
+    const { data: previous, error: previousError } = await supabase
+      .from('credit_transactions')
+      .select('balance_after')
+      .eq('user_id', userId)
+      .lt('created_at', start.toISOString())
+      .order('ledger_seq', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (previousError) {
+      console.error('Error fetching opening balance:', previousError);
+      return { success: false, error: 'Failed to build credit statement' };
+    }
+
+    const entries: CreditHistoryEntry[] = [];
+    for (let offset = 0; ; offset += STATEMENT_BATCH_SIZE) {
+      const { data, error } = await supabase
+        .from('credit_transactions')
+        .select(HISTORY_COLUMNS)
+        .eq('user_id', userId)
+        .gte('created_at', start.toISOString())
+        .lt('created_at', end.toISOString())
+        .order('ledger_seq', { ascending: true })
+        .range(offset, offset + STATEMENT_BATCH_SIZE - 1);
+
+      if (error) {
+        console.error('Error fetching statement entries:', error);
+        return { success: false, error: 'Failed to build credit statement' };
+      }
+
+      entries.push(...(data || []).map(toHistoryEntry));
+
+      if (!data || data.length < STATEMENT_BATCH_SIZE) {
+        break;
+      }
+    }
+
+    const openingBalance = previous?.balance_after || 0;
+    const totals: CreditStatement['totals'] = {};
+    for (const entry of entries) {
+      totals[entry.transactionType] = (totals[entry.transactionType] || 0) + entry.amount;
+    }
+
+    return {
+      success: true,
+      statement: {
+        userId,
+        month,
+        openingBalance,
+        closingBalance: entries.length > 0 ? entries[entries.length - 1].balanceAfter : openingBalance,
+        totals,
+        entries
+      }
+    };
+
+  } catch (error) {
+    console.error('Error in getCreditStatement:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+/**
+ * Quote CSV cells, and prefix text that a spreadsheet would run as a formula
+ * (descriptions can contain user input). Numbers such as negative amounts are left as-is.
+ */
+function escapeCsv(value: unknown): string {
+  let text = value === null || value === undefined ? '' : String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Render a statement as CSV
+ */
+export function formatStatementCsv(statement: CreditStatement): string {
+  const lines = [
+    ['Date', 'Type', 'Description', 'Amount', 'Balance', 'Task ID', 'Video ID'].join(','),
+    ['', 'opening_balance', `Opening balance ${statement.month}`, '', statement.openingBalance, '', ''].map(escapeCsv).join(',')
+  ];
+
+  for (const entry of statement.entries) {
+    lines.push([
+      entry.createdAt,
+      entry.transactionType,
+      entry.description,
+      entry.amount,
+      entry.balanceAfter,
+      entry.taskId,
+      entry.videoId
+    ].map(escapeCsv).join(','));
+  }
+
+  lines.push(['', 'closing_balance', `Closing balance ${statement.month}`, '', statement.closingBalance, '', ''].map(escapeCsv).join(','));
+
+  return lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * Export a monthly statement as a downloadable CSV or JSON document
+ */
+export async function exportCreditStatement(
+  userId: string,
+  month: string,
+  format: 'csv' | 'json' = 'csv'
+): Promise<{ success: boolean; filename?: string; contentType?: string; content?: string; error?: string }> {
+  const result = await getCreditStatement(userId, month);
+  if (!result.success || !result.statement) {
+    return { success: false, error: result.error };
+  }
+
+  const filename = `credit-statement-${month}.${format}`;
+
+  if (format === 'json') {
+    return {
+      success: true,
+      filename,
+      contentType: 'application/json',
+      content: JSON.stringify(result.statement, null, 2)
+    };
+  }
+
+  return {
+    success: true,
+    filename,
+    contentType: 'text/csv; charset=utf-8',
+    content: formatStatementCsv(result.statement)
+  };
+}
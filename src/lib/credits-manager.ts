@@ -1,82 +1,126 @@
 import { createServiceClient } from './supabase/server';
 
+export type CreditRelatedObjectType = 'video' | 'order' | 'subscription' | 'check_in' | 'referral';
+
+/**
+ * A ledger row in `credit_transactions`. Provider task IDs live in the indexed `task_id`
+ * column; the entity a transaction belongs to (video, check-in, referral, ...) is linked
+ * through `related_object_type` / `related_object_id`. Anything else goes in `metadata`.
+ */
 export interface CreditTransaction {
   userId: string;
   amount: number;
-  transactionType: 'usage' | 'refund' | 'purchase' | 'bonus';
+  transactionType: 'usage' | 'refund' | 'purchase' | 'bonus' | 'adjustment' | 'expiration';
   description: string;
-  videoId?: string;
   taskId?: string;
+  relatedObjectType?: CreditRelatedObjectType;
+  relatedObjectId?: string;
+  metadata?: Record<string, unknown>;
+  balanceAfter?: number;
 }
 
+export type CreditLotSource = 'purchase' | 'bonus' | 'check_in' | 'referral' | 'refund' | 'adjustment';
+
 /**
- * Deduct credits from user account
+ * Default expiry for a newly granted lot. Purchased credits never expire; free credits
+ * expire after FREE_CREDITS_EXPIRY_DAYS (default 30).
  */
-export async function deductCredits(
-  userId: string, 
-  amount: number, 
-  description: string,
-  taskId?: string
-): Promise<{ success: boolean; remainingCredits?: number; error?: string }> {
-  try {
-    const supabase = createServiceClient();
+export function getDefaultLotExpiry(source: CreditLotSource): Date | null {
+  if (source === 'purchase' || source === 'refund' || source === 'adjustment') {
+    return null;
+  }
 
-    // Start transaction - get current credits
-    const { data: profile, error: profileError } = await supabase
-      .from('user_profiles')
-      .select('credits, total_credits_spent, total_videos_created')
-      .eq('id', userId)
-      .single();
+  const days = parseInt(process.env.FREE_CREDITS_EXPIRY_DAYS || '30');
+  return new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+}
 
-    if (profileError) {
-      console.error('Error fetching user profile:', profileError);
-      return { success: false, error: 'Failed to fetch user profile' };
+/**
+ * Apply a balance change and its ledger row in a single database transaction.
+ * The `apply_credit_transaction` function locks the profile row, so concurrent
+ * calls for the same user are serialized and can never overspend.
+ *
+ * When an idempotency key is given, a repeated call with the same user, type and
+ * key returns the original transaction (`replayed: true`) without moving the balance.
+ */
+async function applyCreditTransaction(
+  transaction: CreditTransaction,
+  options: {
+    idempotencyKey?: string;
+    lot?: { source: CreditLotSource; expiresAt: Date | null };
+  } = {}
+): Promise<{ success: boolean; transactionId?: string; newBalance?: number; replayed?: boolean; error?: string }> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .rpc('apply_credit_transaction', {
+      p_user_id: transaction.userId,
+      p_amount: transaction.amount,
+      p_transaction_type: transaction.transactionType,
+      p_description: transaction.description,
+      p_metadata: transaction.metadata || {},
+      p_idempotency_key: options.idempotencyKey ?? null,
+      p_lot_source: options.lot?.source ?? null,
+      p_lot_expires_at: options.lot?.expiresAt?.toISOString() ?? null,
+      p_task_id: transaction.taskId ?? null,
+      p_related_object_type: transaction.relatedObjectType ?? null,
+      p_related_object_id: transaction.relatedObjectId ?? null
+    })
+    .single<{ transaction_id: string; new_balance: number; replayed: boolean }>();
+
+  if (error) {
+    if (error.message?.includes('INSUFFICIENT_CREDITS')) {
+      return { success: false, error: 'Insufficient credits' };
     }
-
-    if (!profile) {
+    if (error.message?.includes('USER_NOT_FOUND')) {
       return { success: false, error: 'User profile not found' };
     }
-
-    if (profile.credits < amount) {
-      return { success: false, error: 'Insufficient credits' };
+    if (error.message?.includes('IDEMPOTENCY_KEY_CONFLICT')) {
+      return { success: false, error: 'Idempotency key already used with a different amount' };
     }
+    console.error('Error applying credit transaction:', error);
+    return { success: false, error: 'Failed to update credits' };
+  }
 
-    // Update user credits
-    const newCredits = profile.credits - amount;
-    const { error: updateError } = await supabase
-      .from('user_profiles')
-      .update({ 
-        credits: newCredits,
-        total_credits_spent: (profile.total_credits_spent || 0) + amount,
-        total_videos_created: (profile.total_videos_created || 0) + 1
-      })
-      .eq('id', userId);
+  if (!data) {
+    return { success: false, error: 'Failed to update credits' };
+  }
 
-    if (updateError) {
-      console.error('Error updating user credits:', updateError);
-      return { success: false, error: 'Failed to update credits' };
-    }
+  return {
+    success: true,
+    transactionId: data.transaction_id,
+    newBalance: data.new_balance,
+    replayed: data.replayed
+  };
+}
 
-    // Log credit transaction
-    const { error: transactionError } = await supabase
-      .from('credit_transactions')
-      .insert({
-        user_id: userId,
-        transaction_type: 'usage',
-        amount: -amount,
-        description: taskId ? `${description} - Task: ${taskId}` : description,
-        task_id: taskId,
-        created_at: new Date().toISOString()
-      });
-
-    if (transactionError) {
-      console.error('Error logging credit transaction:', transactionError);
-      // Don't fail the operation if transaction logging fails
+/**
+ * Deduct credits from user account
+ * The idempotency key defaults to the task ID, so a retried request for the same task is charged once.
+ */
+export async function deductCredits(
+  userId: string, 
+  amount: number, 
+  description: string,
+  taskId?: string,
+  idempotencyKey: string | undefined = taskId
+): Promise<{ success: boolean; remainingCredits?: number; replayed?: boolean; error?: string }> {
+  try {
+    const result = await applyCreditTransaction(
+      { userId, amount: -amount, transactionType: 'usage', description, taskId },
+      { idempotencyKey }
+    );
+
+    if (!result.success) {
+      return { success: false, error: result.error };
     }
 
-    console.log(`✅ Deducted ${amount} credits from user ${userId}. Remaining: ${newCredits}`);
+    if (result.replayed) {
+      console.log(`↩️ Deduction already applied for key ${idempotencyKey}. Remaining: ${result.newBalance}`);
+    } else {
+      console.log(`✅ Deducted ${amount} credits from user ${userId}. Remaining: ${result.newBalance}`);
+    }
     
-    return { success: true, remainingCredits: newCredits };
+    return { success: true, remainingCredits: result.newBalance, replayed: result.replayed };
 
   } catch (error) {
     console.error('Error in deductCredits:', error);
@@ -86,77 +130,96 @@ export async function deductCredits(
 
 /**
  * Refund credits to user account (for failed generations)
+ * The idempotency key defaults to the task ID, so each task can be refunded at most once.
  */
 export async function refundCredits(
   userId: string, 
   amount: number, 
   description: string,
   taskId?: string,
-  videoId?: string
-): Promise<{ success: boolean; newCredits?: number; error?: string }> {
+  videoId?: string,
+  idempotencyKey: string | undefined = taskId
+): Promise<{ success: boolean; newCredits?: number; replayed?: boolean; error?: string }> {
+  try {
+    const result = await applyCreditTransaction(
+      {
+        userId,
+        amount, // Positive amount for refunds
+        transactionType: 'refund',
+        description,
+        taskId,
+        ...(videoId && { relatedObjectType: 'video' as const, relatedObjectId: videoId })
+      },
+      { idempotencyKey }
+    );
+
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+
+    if (result.replayed) {
+      console.log(`↩️ Refund already applied for key ${idempotencyKey}. Balance: ${result.newBalance}`);
+    } else {
+      console.log(`💰 Refunded ${amount} credits to user ${userId}. New balance: ${result.newBalance}`);
+    }
+    
+    return { success: true, newCredits: result.newBalance, replayed: result.replayed };
+
+  } catch (error) {
+    console.error('Error in refundCredits:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+/**
+ * Refund whatever was charged for a task (if anything), summed over all of its usage rows.
+ * Safe to call repeatedly: the refund is keyed on the task ID.
+ */
+export async function refundTaskCredits(
+  userId: string,
+  taskId: string,
+  description: string
+): Promise<{ success: boolean; refunded?: number; error?: string }> {
   try {
     const supabase = createServiceClient();
 
-    // Get current credits
-    const { data: profile, error: profileError } = await supabase
-      .from('user_profiles')
-      .select('credits, total_credits_spent')
-      .eq('id', userId)
-      .single();
+    const { data: usage, error } = await supabase
+      .from('credit_transactions')
+      .select('amount')
+      .eq('user_id', userId)
+      .eq('transaction_type', 'usage')
+      .eq('task_id', taskId);
 
-    if (profileError || !profile) {
-      console.error('Error fetching user profile for refund:', profileError);
-      return { success: false, error: 'Failed to fetch user profile' };
+    if (error) {
+      console.error('Error fetching task usage transactions:', error);
+      return { success: false, error: 'Failed to fetch task charge' };
     }
 
-    // Update user credits (add back the amount)
-    const newCredits = profile.credits + amount;
-    const { error: updateError } = await supabase
-      .from('user_profiles')
-      .update({ 
-        credits: newCredits,
-        // Optionally decrease total_credits_spent if you want to track net spending
-        total_credits_spent: Math.max(0, (profile.total_credits_spent || 0) - amount)
-      })
-      .eq('id', userId);
-
-    if (updateError) {
-      console.error('Error updating user credits for refund:', updateError);
-      return { success: false, error: 'Failed to refund credits' };
+    const charged = (usage || []).reduce((total, row) => total - row.amount, 0);
+    if (charged <= 0) {
+      return { success: true, refunded: 0 };
     }
 
-    // Log refund transaction
-    const { error: transactionError } = await supabase
-      .from('credit_transactions')
-      .insert({
-        user_id: userId,
-        video_id: videoId || null,
-        transaction_type: 'refund',
-        amount: amount, // Positive amount for refunds
-        description: taskId ? `${description} - Task: ${taskId}` : description,
-        task_id: taskId,
-        created_at: new Date().toISOString()
-      });
-
-    if (transactionError) {
-      console.error('Error logging refund transaction:', transactionError);
-      // Don't fail the operation if transaction logging fails
+    const result = await refundCredits(userId, charged, description, taskId);
+    if (!result.success) {
+      return { success: false, error: result.error };
     }
 
-    console.log(`💰 Refunded ${amount} credits to user ${userId}. New balance: ${newCredits}`);
-    
-    return { success: true, newCredits };
+    return { success: true, refunded: result.replayed ? 0 : charged };
 
   } catch (error) {
-    console.error('Error in refundCredits:', error);
+    console.error('Error in refundTaskCredits:', error);
     return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
   }
 }
 
 /**
  * Get user's current credit balance
+ * `availableCredits` excludes credits reserved by outstanding holds.
  */
-export async function getUserCredits(userId: string): Promise<{ credits: number; error?: string }> {
+export async function getUserCredits(
+  userId: string
+): Promise<{ credits: number; heldCredits: number; availableCredits: number; error?: string }> {
   try {
     const supabase = createServiceClient();
     
@@ -168,19 +231,231 @@ export async function getUserCredits(userId: string): Promise<{ credits: number;
 
     if (error || !profile) {
       console.error('Error fetching user credits:', error);
-      return { credits: 0, error: 'Failed to fetch credits' };
+      return { credits: 0, heldCredits: 0, availableCredits: 0, error: 'Failed to fetch credits' };
     }
 
-    return { credits: profile.credits || 0 };
+    const { data: heldCredits, error: holdsError } = await supabase
+      .rpc('active_credit_holds', { p_user_id: userId });
+
+    // Treating unknown holds as 0 would overstate what the user can spend
+    if (holdsError) {
+      console.error('Error fetching credit holds:', holdsError);
+      return { credits: profile.credits || 0, heldCredits: 0, availableCredits: 0, error: 'Failed to fetch credit holds' };
+    }
+
+    const credits = profile.credits || 0;
+    const held = heldCredits || 0;
+
+    return { credits, heldCredits: held, availableCredits: Math.max(0, credits - held) };
 
   } catch (error) {
     console.error('Error in getUserCredits:', error);
-    return { credits: 0, error: error instanceof Error ? error.message : 'Unknown error' };
+    return { credits: 0, heldCredits: 0, availableCredits: 0, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+/**
+ * Reserve credits for a generation without charging them yet.
+ * The hold expires after `ttlSeconds` (CREDIT_HOLD_TTL_SECONDS, default 1 hour) so a lost
+ * callback never keeps credits locked.
+ */
+export async function holdCredits(
+  userId: string,
+  amount: number,
+  description: string,
+  options: { ttlSeconds?: number; idempotencyKey?: string } = {}
+): Promise<{ success: boolean; holdId?: string; availableCredits?: number; replayed?: boolean; error?: string }> {
+  try {
+    const supabase = createServiceClient();
+    const ttlSeconds = options.ttlSeconds || parseInt(process.env.CREDIT_HOLD_TTL_SECONDS || '3600');
+
+    const { data, error } = await supabase
+      .rpc('place_credit_hold', {
+        p_user_id: userId,
+        p_amount: amount,
+        p_description: description,
+        p_ttl_seconds: ttlSeconds,
+        p_idempotency_key: options.idempotencyKey ?? null
+      })
+      .single<{ hold_id: string; available_balance: number; replayed: boolean }>();
+
+    if (error || !data) {
+      if (error?.message?.includes('INSUFFICIENT_CREDITS')) {
+        return { success: false, error: 'Insufficient credits' };
+      }
+      if (error?.message?.includes('USER_NOT_FOUND')) {
+        return { success: false, error: 'User profile not found' };
+      }
+      console.error('Error placing credit hold:', error);
+      return { success: false, error: 'Failed to reserve credits' };
+    }
+
+    console.log(`🔒 Held ${amount} credits for user ${userId} (hold ${data.hold_id}). Available: ${data.available_balance}`);
+
+    return { success: true, holdId: data.hold_id, availableCredits: data.available_balance, replayed: data.replayed };
+
+  } catch (error) {
+    console.error('Error in holdCredits:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+/**
+ * Link a hold to the provider task it pays for, so callbacks can capture or release it by task ID
+ */
+export async function attachCreditHoldToTask(
+  holdId: string,
+  taskId: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const supabase = createServiceClient();
+
+    const { error } = await supabase
+      .from('credit_holds')
+      .update({ task_id: taskId, updated_at: new Date().toISOString() })
+      .eq('id', holdId);
+
+    if (error) {
+      console.error('Error attaching credit hold to task:', error);
+      return { success: false, error: 'Failed to attach credit hold' };
+    }
+
+    return { success: true };
+
+  } catch (error) {
+    console.error('Error in attachCreditHoldToTask:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+/**
+ * Resolve a hold reference to the most recent hold ID
+ */
+async function findCreditHoldId(ref: { holdId?: string; taskId?: string }): Promise<string | null> {
+  if (ref.holdId) {
+    return ref.holdId;
+  }
+
+  if (!ref.taskId) {
+    return null;
+  }
+
+  const supabase = createServiceClient();
+  const { data, error } = await supabase
+    .from('credit_holds')
+    .select('id')
+    .eq('task_id', ref.taskId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error looking up credit hold:', error);
+  }
+
+  return data?.id ?? null;
+}
+
+/**
+ * Charge a hold once the generation has been delivered. A hold that expired
+ * before completion is still charged, but only if the available balance covers it.
+ */
+export async function captureCreditHold(
+  ref: { holdId?: string; taskId?: string }
+): Promise<{ success: boolean; remainingCredits?: number; replayed?: boolean; error?: string }> {
+  try {
+    const holdId = await findCreditHoldId(ref);
+    if (!holdId) {
+      return { success: false, error: 'Credit hold not found' };
+    }
+
+    const supabase = createServiceClient();
+    const { data, error } = await supabase
+      .rpc('capture_credit_hold', { p_hold_id: holdId })
+      .single<{ transaction_id: string; new_balance: number; replayed: boolean }>();
+
+    if (error || !data) {
+      if (error?.message?.includes('HOLD_NOT_ACTIVE')) {
+        return { success: false, error: 'Credit hold is no longer active' };
+      }
+      if (error?.message?.includes('INSUFFICIENT_CREDITS')) {
+        return { success: false, error: 'Insufficient credits' };
+      }
+      console.error('Error capturing credit hold:', error);
+      return { success: false, error: 'Failed to capture credit hold' };
+    }
+
+    console.log(`✅ Captured credit hold ${holdId}. Remaining: ${data.new_balance}`);
+
+    return { success: true, remainingCredits: data.new_balance, replayed: data.replayed };
+
+  } catch (error) {
+    console.error('Error in captureCreditHold:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+/**
+ * Release a hold without charging it (failed or abandoned generation)
+ */
+export async function releaseCreditHold(
+  ref: { holdId?: string; taskId?: string }
+): Promise<{ success: boolean; released?: boolean; error?: string }> {
+  try {
+    const holdId = await findCreditHoldId(ref);
+    if (!holdId) {
+      return { success: false, error: 'Credit hold not found' };
+    }
+
+    const supabase = createServiceClient();
+    const { data, error } = await supabase.rpc('release_credit_hold', { p_hold_id: holdId });
+
+    if (error) {
+      console.error('Error releasing credit hold:', error);
+      return { success: false, error: 'Failed to release credit hold' };
+    }
+
+    if (data) {
+      console.log(`🔓 Released credit hold ${holdId}`);
+    }
+
+    return { success: true, released: !!data };
+
+  } catch (error) {
+    console.error('Error in releaseCreditHold:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+/**
+ * Expire holds whose deadline has passed (run periodically)
+ */
+export async function expireStaleCreditHolds(): Promise<{ success: boolean; expired?: number; error?: string }> {
+  try {
+    const supabase = createServiceClient();
+    const { data, error } = await supabase.rpc('expire_credit_holds');
+
+    if (error) {
+      console.error('Error expiring credit holds:', error);
+      return { success: false, error: 'Failed to expire credit holds' };
+    }
+
+    if (data) {
+      console.log(`⏰ Expired ${data} stale credit holds`);
+    }
+
+    return { success: true, expired: data || 0 };
+
+  } catch (error) {
+    console.error('Error in expireStaleCreditHolds:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
   }
 }
 
 /**
  * Add credits to user account (for bonuses, rewards, etc.)
+ * The idempotency key defaults to the checkout ID or check-in ID when one is provided.
+ * Each grant becomes a credit lot; free credits expire unless `expiresAt` overrides it.
  */
 export async function addCredits(
   userId: string, 
@@ -190,72 +465,128 @@ export async function addCredits(
   metadata?: {
     checkInId?: string;
     referralId?: string;
+    checkoutId?: string;
     freeCreditsType?: string;
+    idempotencyKey?: string;
+    expiresAt?: Date | null;
+  }
+): Promise<{ success: boolean; newCredits?: number; replayed?: boolean; error?: string }> {
+  const idempotencyKey = metadata?.idempotencyKey ?? metadata?.checkoutId ?? metadata?.checkInId;
+  const lotSource: CreditLotSource = metadata?.checkInId
+    ? 'check_in'
+    : metadata?.referralId
+      ? 'referral'
+      : transactionType;
+  const lotExpiresAt = metadata?.expiresAt !== undefined ? metadata.expiresAt : getDefaultLotExpiry(lotSource);
+
+  try {
+    const relatedObject: Pick<CreditTransaction, 'relatedObjectType' | 'relatedObjectId'> = metadata?.checkInId
+      ? { relatedObjectType: 'check_in', relatedObjectId: metadata.checkInId }
+      : metadata?.referralId
+        ? { relatedObjectType: 'referral', relatedObjectId: metadata.referralId }
+        : {};
+
+    const result = await applyCreditTransaction(
+      {
+        userId,
+        amount, // Positive amount for additions
+        transactionType,
+        description,
+        ...relatedObject,
+        metadata: {
+          ...(metadata?.checkoutId && { checkout_id: metadata.checkoutId }),
+          ...(metadata?.freeCreditsType && { free_credits_type: metadata.freeCreditsType })
+        }
+      },
+      { idempotencyKey, lot: { source: lotSource, expiresAt: lotExpiresAt } }
+    );
+
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+
+    if (result.replayed) {
+      console.log(`↩️ Credit grant already applied for key ${idempotencyKey}. Balance: ${result.newBalance}`);
+    } else {
+      console.log(`🎁 Added ${amount} credits to user ${userId}. New balance: ${result.newBalance}`);
+    }
+    
+    return { success: true, newCredits: result.newBalance, replayed: result.replayed };
+
+  } catch (error) {
+    console.error('Error in addCredits:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
   }
-): Promise<{ success: boolean; newCredits?: number; error?: string }> {
+}
+
+/**
+ * Expire credit lots past their expiry date across all users (run periodically).
+ * Each expired lot writes a matching `expiration` ledger row.
+ */
+export async function expireCreditLots(): Promise<{ success: boolean; usersAffected?: number; creditsExpired?: number; error?: string }> {
   try {
     const supabase = createServiceClient();
 
-    // Get current credits
-    const { data: profile, error: profileError } = await supabase
-      .from('user_profiles')
-      .select('credits')
-      .eq('id', userId)
-      .single();
+    const { data, error } = await supabase
+      .rpc('expire_credit_lots')
+      .single<{ users_affected: number; credits_expired: number }>();
 
-    if (profileError || !profile) {
-      console.error('Error fetching user profile for credit addition:', profileError);
-      return { success: false, error: 'Failed to fetch user profile' };
+    if (error || !data) {
+      console.error('Error expiring credit lots:', error);
+      return { success: false, error: 'Failed to expire credit lots' };
     }
 
-    // Update user credits (add the amount)
-    const newCredits = profile.credits + amount;
-    const { error: updateError } = await supabase
-      .from('user_profiles')
-      .update({ 
-        credits: newCredits,
-        updated_at: new Date().toISOString()
-      })
-      .eq('id', userId);
-
-    if (updateError) {
-      console.error('Error updating user credits:', updateError);
-      return { success: false, error: 'Failed to add credits' };
+    if (data.credits_expired > 0) {
+      console.log(`⏰ Expired ${data.credits_expired} credits across ${data.users_affected} users`);
     }
 
-    // Log credit transaction
-    const transactionData = {
-      user_id: userId,
-      transaction_type: transactionType,
-      amount: amount, // Positive amount for additions
-      description,
-      created_at: new Date().toISOString(),
-      ...(metadata?.checkInId && { check_in_id: metadata.checkInId }),
-      ...(metadata?.referralId && { referral_id: metadata.referralId }),
-      ...(metadata?.freeCreditsType && { free_credits_type: metadata.freeCreditsType })
-    };
+    return { success: true, usersAffected: data.users_affected, creditsExpired: data.credits_expired };
 
-    const { error: transactionError } = await supabase
-      .from('credit_transactions')
-      .insert(transactionData);
+  } catch (error) {
+    console.error('Error in expireCreditLots:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
 
-    if (transactionError) {
-      console.error('Error logging credit transaction:', transactionError);
-      // Don't fail the operation if transaction logging fails
+/**
+ * Compare the stored balance with the sum of the user's ledger entries
+ */
+export async function reconcileUserCredits(
+  userId: string
+): Promise<{ success: boolean; profileBalance?: number; ledgerBalance?: number; discrepancy?: number; error?: string }> {
+  try {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+      .from('credit_ledger_reconciliation')
+      .select('profile_balance, ledger_balance, discrepancy')
+      .eq('user_id', userId)
+      .single();
+
+    if (error || !data) {
+      console.error('Error reconciling user credits:', error);
+      return { success: false, error: 'Failed to reconcile credits' };
     }
 
-    console.log(`🎁 Added ${amount} credits to user ${userId}. New balance: ${newCredits}`);
-    
-    return { success: true, newCredits };
+    if (data.discrepancy !== 0) {
+      console.warn(`⚠️ Credit ledger mismatch for user ${userId}: profile=${data.profile_balance}, ledger=${data.ledger_balance}`);
+    }
+
+    return {
+      success: true,
+      profileBalance: data.profile_balance,
+      ledgerBalance: data.ledger_balance,
+      discrepancy: data.discrepancy
+    };
 
   } catch (error) {
-    console.error('Error in addCredits:', error);
+    console.error('Error in reconcileUserCredits:', error);
     return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
   }
 }
 
 /**
- * Record a successful video completion (updates transaction with video_id)
+ * Record a successful video completion (links the task's usage transaction to the video)
  */
 export async function recordVideoCompletion(
   userId: string,
@@ -265,17 +596,17 @@ export async function recordVideoCompletion(
   try {
     const supabase = createServiceClient();
 
-    // Update the credit transaction with the video_id
+    // Link the usage transaction for this task to the video
     const { error: updateError } = await supabase
       .from('credit_transactions')
       .update({ 
-        video_id: videoId,
-        description: `Video generation completed - Task: ${taskId}, Video: ${videoId}`
+        related_object_type: 'video',
+        related_object_id: videoId
       })
       .eq('user_id', userId)
       .eq('transaction_type', 'usage')
-      .like('description', `%Task: ${taskId}%`)
-      .is('video_id', null); // Only update if video_id is not set yet
+      .eq('task_id', taskId)
+      .is('related_object_id', null); // Only update if the video is not linked yet
 
     if (updateError) {
       console.error('Error updating credit transaction with video_id:', updateError);
@@ -0,0 +1,333 @@
+import { createServiceClient } from './supabase/server';
+import { createKieVeo3Client, KieVeo3Client, VideoGenerationOptions } from './kie-veo3-client';
+import { isKieError, KieApiError } from './kie-errors';
+import { calculateVideoCreditCost } from './video-pricing';
+import { getUserPlan } from './user-plan';
+
+export type GenerationJobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled' | 'dead_lettered';
+
+export interface GenerationJob {
+  id: string;
+  userId: string;
+  status: GenerationJobStatus;
+  planType: string;
+  priority: number;
+  maxConcurrent: number;
+  options: Omit<VideoGenerationOptions, 'billing' | 'idempotencyKey'>;
+  credits: number;
+  attempts: number;
+  maxAttempts: number;
+  runAfter: string;
+  taskId: string | null;
+  lastError: string | null;
+  createdAt: string;
+  completedAt: string | null;
+}
+
+export interface QueuePolicy {
+  planType: string;
+  priority: number;
+  maxConcurrent: number;
+}
+
+// Defaults per plan; pricing_plans.feature_limits.queue_priority / max_concurrent_jobs override them
+const DEFAULT_QUEUE_POLICIES: Record<string, Omit<QueuePolicy, 'planType'>> = {
+  free: { priority: 0, maxConcurrent: 1 },
+  trial: { priority: 0, maxConcurrent: 1 },
+  basic: { priority: 10, maxConcurrent: 2 },
+  pro: { priority: 30, maxConcurrent: 4 },
+  enterprise: { priority: 40, maxConcurrent: 8 }
+};
+
+const RETRY_BASE_DELAY_SECONDS = 30;
+const RETRY_MAX_DELAY_SECONDS = 15 * 60;
+
+function toGenerationJob(row: any): GenerationJob {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    status: row.status,
+    planType: row.plan_type,
+    priority: row.priority,
+    maxConcurrent: row.max_concurrent,
+    options: row.options,
+    credits: row.credits,
+    attempts: row.attempts,
+    maxAttempts: row.max_attempts,
+    runAfter: row.run_after,
+    taskId: row.task_id,
+    lastError: row.last_error,
+    createdAt: row.created_at,
+    completedAt: row.completed_at
+  };
+}
+
+/**
+ * Resolve a user's queue priority and concurrency from their plan
+ */
+export async function getUserQueuePolicy(userId: string): Promise<QueuePolicy> {
+  const { planType, featureLimits: limits } = await getUserPlan(userId);
+  const defaults = DEFAULT_QUEUE_POLICIES[planType] || DEFAULT_QUEUE_POLICIES.free;
+
+  return {
+    planType,
+    priority: typeof limits.queue_priority === 'number' ? limits.queue_priority : defaults.priority,
+    maxConcurrent: typeof limits.max_concurrent_jobs === 'number' ? limits.max_concurrent_jobs : defaults.maxConcurrent
+  };
+}
+
+/**
+ * Queue a generation for a worker to submit. The price is quoted now and honored
+ * when the job runs.
+ */
+export async function enqueueGenerationJob(params: {
+  userId: string;
+  options: Omit<VideoGenerationOptions, 'billing' | 'idempotencyKey'>;
+  maxAttempts?: number;
+}): Promise<{ success: boolean; job?: GenerationJob; error?: string }> {
+  try {
+    const supabase = createServiceClient();
+
+    const quote = await calculateVideoCreditCost({
+      provider: params.options.provider,
+      model: params.options.model,
+      duration: params.options.duration,
+      quality: params.options.quality,
+      imageToVideo: !!params.options.imageUrl
+    });
+    if (!quote.success) {
+      return { success: false, error: quote.error };
+    }
+
+    const policy = await getUserQueuePolicy(params.userId);
+
+    const { data, error } = await supabase
+      .from('generation_jobs')
+      .insert({
+        user_id: params.userId,
+        plan_type: policy.planType,
+        priority: policy.priority,
+        max_concurrent: policy.maxConcurrent,
+        options: params.options,
+        credits: quote.credits,
+        max_attempts: params.maxAttempts || 3
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      console.error('Error enqueueing generation job:', error);
+      return { success: false, error: 'Failed to enqueue generation job' };
+    }
+
+    console.log(`📥 Queued generation job ${data.id} for user ${params.userId} (${policy.planType}, priority ${policy.priority})`);
+
+    return { success: true, job: toGenerationJob(data) };
+
+  } catch (error) {
+    console.error('Error in enqueueGenerationJob:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+export async function getGenerationJob(jobId: string): Promise<GenerationJob | null> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from('generation_jobs')
+    .select('*')
+    .eq('id', jobId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching generation job:', error);
+    return null;
+  }
+
+  return data ? toGenerationJob(data) : null;
+}
+
+/**
+ * Cancel a job that has not been picked up yet. Running jobs have already been
+ * (or are being) submitted to the provider and cannot be cancelled.
+ */
+export async function cancelGenerationJob(
+  jobId: string,
+  userId: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+      .from('generation_jobs')
+      .update({
+        status: 'cancelled',
+        cancelled_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', jobId)
+      .eq('user_id', userId)
+      .eq('status', 'queued')
+      .select('id');
+
+    if (error) {
+      console.error('Error cancelling generation job:', error);
+      return { success: false, error: 'Failed to cancel generation job' };
+    }
+
+    if (!data || data.length === 0) {
+      const job = await getGenerationJob(jobId);
+      return {
+        success: false,
+        error: job && job.userId === userId ? `Job is already ${job.status}` : 'Job not found'
+      };
+    }
+
+    return { success: true };
+
+  } catch (error) {
+    console.error('Error in cancelGenerationJob:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+async function finishJob(jobId: string, workerId: string, patch: Record<string, unknown>): Promise<void> {
+  const supabase = createServiceClient();
+
+  const { error } = await supabase
+    .from('generation_jobs')
+    .update({
+      ...patch,
+      locked_by: null,
+      lease_expires_at: null,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', jobId)
+    .eq('locked_by', workerId);
+
+  if (error) {
+    console.error(`Error updating generation job ${jobId}:`, error);
+  }
+}
+
+function getRetryDelaySeconds(attempts: number, error: unknown): number {
+  if (error instanceof KieApiError && error.retryAfterMs !== undefined) {
+    return Math.ceil(error.retryAfterMs / 1000);
+  }
+  return Math.min(RETRY_MAX_DELAY_SECONDS, RETRY_BASE_DELAY_SECONDS * Math.pow(2, attempts - 1));
+}
+
+/**
+ * Claim and run the next job. Transient provider errors are retried with backoff
+ * until max_attempts, then dead-lettered; terminal errors fail the job immediately.
+ * Returns null when there was nothing to run.
+ */
+export async function processNextGenerationJob(
+  workerId: string,
+  options: { client?: KieVeo3Client; leaseSeconds?: number } = {}
+): Promise<GenerationJob | null> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .rpc('claim_generation_job', {
+      p_worker_id: workerId,
+      p_lease_seconds: options.leaseSeconds || 300
+    })
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error claiming generation job:', error);
+    return null;
+  }
+
+  if (!data) {
+    return null;
+  }
+
+  const job = toGenerationJob(data);
+  console.log(`⚙️ Worker ${workerId} running job ${job.id} (attempt ${job.attempts}/${job.maxAttempts})`);
+
+  try {
+    const client = options.client || createKieVeo3Client();
+    // Keyed on the job so a re-run after a lost lease returns the original task. A failed
+    // attempt (timeouts included) releases its credit hold, so a backoff retry with the
+    // same key submits afresh.
+    const result = await client.generateVideo({
+      ...job.options,
+      idempotencyKey: `job:${job.id}`,
+      // Always passed so the task is attributed to the user; 0-credit jobs place no hold
+      billing: { userId: job.userId, credits: job.credits }
+    });
+
+    if (result.status === 'failed') {
+      await finishJob(job.id, workerId, {
+        status: 'failed',
+        task_id: result.taskId,
+        last_error: result.error || 'Generation rejected by provider',
+        completed_at: new Date().toISOString()
+      });
+      return { ...job, status: 'failed', taskId: result.taskId, lastError: result.error || null };
+    }
+
+    await finishJob(job.id, workerId, {
+      status: 'succeeded',
+      task_id: result.taskId,
+      last_error: null,
+      completed_at: new Date().toISOString()
+    });
+    return { ...job, status: 'succeeded', taskId: result.taskId };
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const retryable = isKieError(error) && error.retryable;
+
+    if (retryable && job.attempts < job.maxAttempts) {
+      const delaySeconds = getRetryDelaySeconds(job.attempts, error);
+      console.warn(`🔁 Job ${job.id} failed (${message}), retrying in ${delaySeconds}s`);
+      await finishJob(job.id, workerId, {
+        status: 'queued',
+        last_error: message,
+        run_after: new Date(Date.now() + delaySeconds * 1000).toISOString()
+      });
+      return { ...job, status: 'queued', lastError: message };
+    }
+
+    const status: GenerationJobStatus = retryable ? 'dead_lettered' : 'failed';
+    console.error(`❌ Job ${job.id} ${status}: ${message}`);
+    await finishJob(job.id, workerId, {
+      status,
+      last_error: message,
+      completed_at: new Date().toISOString()
+    });
+    return { ...job, status, lastError: message };
+  }
+}
+
+/**
+ * Drain up to `maxJobs` jobs, e.g. from a cron-triggered route or a worker loop
+ */
+export async function runGenerationWorker(
+  workerId: string,
+  options: { maxJobs?: number; client?: KieVeo3Client } = {}
+): Promise<{ processed: number; succeeded: number; retried: number; failed: number }> {
+  const summary = { processed: 0, succeeded: 0, retried: 0, failed: 0 };
+  const maxJobs = options.maxJobs || 10;
+
+  while (summary.processed < maxJobs) {
+    const job = await processNextGenerationJob(workerId, { client: options.client });
+    if (!job) {
+      break;
+    }
+
+    summary.processed++;
+    if (job.status === 'succeeded') {
+      summary.succeeded++;
+    } else if (job.status === 'queued') {
+      summary.retried++;
+    } else {
+      summary.failed++;
+    }
+  }
+
+  return summary;
+}
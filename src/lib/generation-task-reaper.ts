@@ -0,0 +1,182 @@
+import { createKieVeo3Client, KieVeo3Client } from './kie-veo3-client';
+import { listVideoProviders, VideoProviderId } from './video-providers';
+import {
+  findTasksAwaitingCallback,
+  claimGenerationTaskCallback,
+  GenerationTask
+} from './generation-tasks';
+import { completeGenerationTask, failGenerationTask } from './kie-callback';
+
+export type ReapOutcome = 'completed' | 'failed' | 'still_processing' | 'skipped' | 'error';
+
+export interface ReapedTask {
+  taskId: string;
+  provider: VideoProviderId;
+  userId: string | null;
+  ageSeconds: number;
+  outcome: ReapOutcome;
+  refundedCredits: number;
+  error?: string;
+}
+
+export interface ReaperReport {
+  startedAt: string;
+  finishedAt: string;
+  scanned: number;
+  completed: number;
+  failed: number;
+  stillProcessing: number;
+  skipped: number;
+  errors: number;
+  refundedCredits: number;
+  tasks: ReapedTask[];
+}
+
+// Polled tasks still running after this many deadlines are given up on
+const POLLING_GRACE_MULTIPLIER = 2;
+
+function getAgeSeconds(task: GenerationTask): number {
+  return Math.floor((Date.now() - new Date(task.createdAt).getTime()) / 1000);
+}
+
+/**
+ * Resolve one overdue task. Claiming the callback slot first means a real callback
+ * arriving at the same time is treated as a duplicate (and vice versa), so a task
+ * is only ever completed or refunded once.
+ */
+async function reapTask(
+  task: GenerationTask,
+  deadlineSeconds: number,
+  getClient: (() => KieVeo3Client) | null
+): Promise<ReapedTask> {
+  const ageSeconds = getAgeSeconds(task);
+  const report: ReapedTask = {
+    taskId: task.taskId,
+    provider: task.provider,
+    userId: task.userId,
+    ageSeconds,
+    outcome: 'failed',
+    refundedCredits: 0
+  };
+  const pastGrace = ageSeconds >= deadlineSeconds * POLLING_GRACE_MULTIPLIER;
+
+  let failureReason = `No callback received within ${deadlineSeconds}s`;
+
+  if (getClient) {
+    try {
+      const status = await getClient().getTaskStatus(task.taskId, task.provider);
+
+      if (status.status === 'completed' && status.result?.videoUrl) {
+        const claim = await claimGenerationTaskCallback(task.taskId);
+        if (!claim.success) {
+          return { ...report, outcome: 'error', error: claim.error };
+        }
+        if (!claim.claimed) {
+          return { ...report, outcome: 'skipped' };
+        }
+        const completion = await completeGenerationTask(task, {
+          videoUrl: status.result.videoUrl,
+          thumbnailUrl: status.result.thumbnailUrl
+        });
+        return completion.success
+          ? { ...report, outcome: 'completed' }
+          : { ...report, outcome: 'failed', refundedCredits: completion.refunded || 0, error: completion.error };
+      }
+
+      if (status.status === 'failed') {
+        failureReason = status.error || 'Generation failed';
+      } else if (!pastGrace) {
+        return { ...report, outcome: 'still_processing' };
+      } else {
+        failureReason = `Task still ${status.status} after ${ageSeconds}s`;
+      }
+
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      if (!pastGrace) {
+        return { ...report, outcome: 'error', error: message };
+      }
+      failureReason = `Status check failed after ${ageSeconds}s: ${message}`;
+    }
+  }
+
+  const claim = await claimGenerationTaskCallback(task.taskId);
+  if (!claim.success) {
+    return { ...report, outcome: 'error', error: claim.error };
+  }
+  if (!claim.claimed) {
+    return { ...report, outcome: 'skipped' };
+  }
+
+  const refundedCredits = await failGenerationTask(task, failureReason);
+  return { ...report, outcome: 'failed', refundedCredits, error: failureReason };
+}
+
+/**
+ * Periodic reconciliation for tasks whose callback never arrived. Tasks older than
+ * their provider's `taskDeadlineSeconds` are polled where the provider supports it;
+ * the rest are marked failed and refunded.
+ */
+export async function reapStuckGenerationTasks(
+  options: { limit?: number } = {}
+): Promise<ReaperReport> {
+  const startedAt = new Date().toISOString();
+  const tasks: ReapedTask[] = [];
+
+  let client: KieVeo3Client | null = null;
+  const getClient = () => {
+    if (!client) {
+      client = createKieVeo3Client();
+    }
+    return client;
+  };
+
+  for (const provider of listVideoProviders()) {
+    const deadlineSeconds = provider.capabilities.taskDeadlineSeconds;
+    const overdue = await findTasksAwaitingCallback(deadlineSeconds, {
+      provider: provider.id,
+      limit: options.limit
+    });
+
+    const canPoll = provider.capabilities.statusMode === 'polling';
+
+    for (const task of overdue) {
+      try {
+        tasks.push(await reapTask(task, deadlineSeconds, canPoll ? getClient : null));
+      } catch (error) {
+        console.error(`Error reaping task ${task.taskId}:`, error);
+        tasks.push({
+          taskId: task.taskId,
+          provider: task.provider,
+          userId: task.userId,
+          ageSeconds: getAgeSeconds(task),
+          outcome: 'error',
+          refundedCredits: 0,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+  }
+
+  const count = (outcome: ReapOutcome) => tasks.filter(task => task.outcome === outcome).length;
+
+  const report: ReaperReport = {
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    scanned: tasks.length,
+    completed: count('completed'),
+    failed: count('failed'),
+    stillProcessing: count('still_processing'),
+    skipped: count('skipped'),
+    errors: count('error'),
+    refundedCredits: tasks.reduce((total, task) => total + task.refundedCredits, 0),
+    tasks
+  };
+
+  console.log(
+    `🧹 Reaped ${report.scanned} stuck tasks: ${report.completed} completed, ${report.failed} failed, ` +
+    `${report.stillProcessing} still processing, ${report.errors} errors, ${report.refundedCredits} credits refunded`
+  );
+
+  return report;
+}
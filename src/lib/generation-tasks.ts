@@ -0,0 +1,294 @@
+import { createServiceClient } from './supabase/server';
+import { VideoProviderId } from './video-providers';
+
+export type GenerationTaskStatus = 'pending' | 'processing' | 'completed' | 'failed';
+
+export interface GenerationTask {
+  id: string;
+  taskId: string;
+  userId: string | null;
+  provider: VideoProviderId;
+  model: string | null;
+  status: GenerationTaskStatus;
+  options: Record<string, any>;
+  idempotencyKey: string | null;
+  attempts: number;
+  creditCost: number | null;
+  lastError: string | null;
+  // Storage keys of the delivered files; URLs are signed on read (see video-access)
+  resultVideoKey: string | null;
+  resultThumbnailKey: string | null;
+  videoId: string | null;
+  // Bound into the callback URL token (see signKieCallbackUrl)
+  callbackNonce: string | null;
+  callbackReceivedAt: string | null;
+  completedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A callback claim this old on an unfinished task means its handler died; ingesting a
+// video (download, transcode, upload) finishes well within this
+const CALLBACK_CLAIM_STALE_SECONDS = 30 * 60;
+
+/**
+ * Legal status transitions. `processing → processing` lets progress updates
+ * through; terminal states never change.
+ */
+const ALLOWED_TRANSITIONS: Record<GenerationTaskStatus, GenerationTaskStatus[]> = {
+  pending: ['processing', 'failed'],
+  processing: ['processing', 'completed', 'failed'],
+  completed: [],
+  failed: []
+};
+
+export function canTransition(from: GenerationTaskStatus, to: GenerationTaskStatus): boolean {
+  return ALLOWED_TRANSITIONS[from].includes(to);
+}
+
+function toGenerationTask(row: any): GenerationTask {
+  return {
+    id: row.id,
+    taskId: row.task_id,
+    userId: row.user_id,
+    provider: row.provider,
+    model: row.model,
+    status: row.status,
+    options: row.options || {},
+    idempotencyKey: row.idempotency_key,
+    attempts: row.attempts || 0,
+    creditCost: row.credit_cost,
+    lastError: row.last_error,
+    resultVideoKey: row.result_video_key,
+    resultThumbnailKey: row.result_thumbnail_key,
+    videoId: row.video_id,
+    callbackNonce: row.callback_nonce,
+    callbackReceivedAt: row.callback_received_at,
+    completedAt: row.completed_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+/**
+ * Persist a submitted provider task. Submissions the provider rejected are stored
+ * as `failed` so they still show up in the user's history.
+ */
+export async function createGenerationTask(params: {
+  taskId: string;
+  userId?: string | null;
+  provider: VideoProviderId;
+  model?: string;
+  options: Record<string, unknown>;
+  idempotencyKey?: string;
+  creditCost?: number;
+  callbackNonce?: string;
+  attempts?: number;
+  status?: Extract<GenerationTaskStatus, 'pending' | 'failed'>;
+  lastError?: string;
+}): Promise<{ success: boolean; task?: GenerationTask; error?: string }> {
+  try {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+      .from('generation_tasks')
+      .upsert({
+        task_id: params.taskId,
+        user_id: params.userId || null,
+        provider: params.provider,
+        model: params.model || null,
+        options: params.options,
+        idempotency_key: params.idempotencyKey || null,
+        credit_cost: params.creditCost ?? null,
+        callback_nonce: params.callbackNonce || null,
+        attempts: params.attempts || 1,
+        status: params.status || 'pending',
+        last_error: params.lastError || null
+      }, { onConflict: 'task_id', ignoreDuplicates: true })
+      .select('*')
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error creating generation task:', error);
+      return { success: false, error: 'Failed to create generation task' };
+    }
+
+    return { success: true, task: data ? toGenerationTask(data) : undefined };
+
+  } catch (error) {
+    console.error('Error in createGenerationTask:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+export async function getGenerationTask(taskId: string): Promise<GenerationTask | null> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from('generation_tasks')
+    .select('*')
+    .eq('task_id', taskId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching generation task:', error);
+    return null;
+  }
+
+  return data ? toGenerationTask(data) : null;
+}
+
+/**
+ * Look up the task a user submitted for a caller-supplied idempotency key.
+ * Keys are only unique per user, so another user's key never matches.
+ */
+export async function getGenerationTaskByIdempotencyKey(
+  userId: string | null,
+  idempotencyKey: string
+): Promise<GenerationTask | null> {
+  const supabase = createServiceClient();
+
+  const query = supabase
+    .from('generation_tasks')
+    .select('*')
+    .eq('idempotency_key', idempotencyKey);
+
+  const { data, error } = await (userId ? query.eq('user_id', userId) : query.is('user_id', null))
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching generation task by idempotency key:', error);
+    return null;
+  }
+
+  return data ? toGenerationTask(data) : null;
+}
+
+/**
+ * Move a task to a new status. The update only matches rows whose current status
+ * may legally move to `to`, so concurrent writers cannot skip or reverse states.
+ */
+export async function transitionGenerationTask(
+  taskId: string,
+  to: GenerationTaskStatus,
+  patch: {
+    lastError?: string | null;
+    videoId?: string;
+    resultVideoKey?: string;
+    resultThumbnailKey?: string;
+  } = {}
+): Promise<{ success: boolean; task?: GenerationTask; error?: string }> {
+  try {
+    const supabase = createServiceClient();
+    const allowedFrom = (Object.keys(ALLOWED_TRANSITIONS) as GenerationTaskStatus[])
+      .filter(from => canTransition(from, to));
+
+    const { data, error } = await supabase
+      .from('generation_tasks')
+      .update({
+        status: to,
+        ...(patch.lastError !== undefined && { last_error: patch.lastError }),
+        ...(patch.videoId && { video_id: patch.videoId }),
+        ...(patch.resultVideoKey && { result_video_key: patch.resultVideoKey }),
+        ...(patch.resultThumbnailKey && { result_thumbnail_key: patch.resultThumbnailKey }),
+        ...(to === 'completed' && { completed_at: new Date().toISOString() }),
+        updated_at: new Date().toISOString()
+      })
+      .eq('task_id', taskId)
+      .in('status', allowedFrom)
+      .select('*')
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error transitioning generation task:', error);
+      return { success: false, error: 'Failed to update generation task' };
+    }
+
+    if (!data) {
+      const current = await getGenerationTask(taskId);
+      return {
+        success: false,
+        error: current
+          ? `Illegal transition ${current.status} → ${to} for task ${taskId}`
+          : `Generation task ${taskId} not found`
+      };
+    }
+
+    return { success: true, task: toGenerationTask(data) };
+
+  } catch (error) {
+    console.error('Error in transitionGenerationTask:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+/**
+ * Record the first callback for a task. `claimed` is false when a callback was already
+ * received, so duplicate deliveries are processed only once. A claim older than
+ * CALLBACK_CLAIM_STALE_SECONDS on a task that never finished can be taken over.
+ * A database error is returned as `success: false`, never as a duplicate.
+ */
+export async function claimGenerationTaskCallback(
+  taskId: string
+): Promise<{ success: boolean; claimed?: boolean; error?: string }> {
+  try {
+    const supabase = createServiceClient();
+    const staleCutoff = new Date(Date.now() - CALLBACK_CLAIM_STALE_SECONDS * 1000).toISOString();
+
+    const { data, error } = await supabase
+      .from('generation_tasks')
+      .update({ callback_received_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+      .eq('task_id', taskId)
+      .in('status', ['pending', 'processing'])
+      .or(`callback_received_at.is.null,callback_received_at.lt.${staleCutoff}`)
+      .select('id');
+
+    if (error) {
+      console.error('Error claiming generation task callback:', error);
+      return { success: false, error: 'Failed to claim generation task callback' };
+    }
+
+    return { success: true, claimed: !!data && data.length > 0 };
+
+  } catch (error) {
+    console.error('Error in claimGenerationTaskCallback:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+/**
+ * Tasks still pending/processing that have not received a callback within
+ * `olderThanSeconds` of submission, oldest first. Tasks whose callback was claimed
+ * but never finished (the handler died mid-way) are included once the claim is stale.
+ */
+export async function findTasksAwaitingCallback(
+  olderThanSeconds: number,
+  options: { provider?: VideoProviderId; limit?: number } = {}
+): Promise<GenerationTask[]> {
+  const supabase = createServiceClient();
+  const cutoff = new Date(Date.now() - olderThanSeconds * 1000).toISOString();
+
+  const staleCutoff = new Date(Date.now() - CALLBACK_CLAIM_STALE_SECONDS * 1000).toISOString();
+
+  let query = supabase
+    .from('generation_tasks')
+    .select('*')
+    .in('status', ['pending', 'processing'])
+    .or(`callback_received_at.is.null,callback_received_at.lt.${staleCutoff}`)
+    .lt('created_at', cutoff);
+
+  if (options.provider) {
+    query = query.eq('provider', options.provider);
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending: true })
+    .limit(options.limit || 100);
+
+  if (error) {
+    console.error('Error fetching tasks awaiting callback:', error);
+    return [];
+  }
+
+  return (data || []).map(toGenerationTask);
+}
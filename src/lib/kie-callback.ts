@@ -0,0 +1,288 @@
+import crypto from 'crypto';
+import { VideoProviderId, getVideoProvider } from './video-providers';
+import {
+  getGenerationTask,
+  claimGenerationTaskCallback,
+  transitionGenerationTask,
+  GenerationTask
+} from './generation-tasks';
+import { completeVideoProcessing } from './video-processor';
+import { releaseCreditHold, refundTaskCredits } from './credits-manager';
+
+export interface KieCallbackRequest {
+  rawBody: string;
+  // `x-kie-signature` / `x-kie-timestamp` headers when the sender signs requests
+  signature?: string | null;
+  timestamp?: string | null;
+  // `token` query parameter added by signKieCallbackUrl
+  token?: string | null;
+}
+
+export interface KieCallbackResult {
+  taskId: string;
+  status: 'completed' | 'failed';
+  videoUrl?: string;
+  thumbnailUrl?: string;
+  resolution?: string;
+  error?: string;
+}
+
+export interface KieCallbackResponse {
+  status: number;
+  body: { success: boolean; taskId?: string; duplicate?: boolean; error?: string };
+}
+
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+function safeEqual(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && crypto.timingSafeEqual(bufferA, bufferB);
+}
+
+/**
+ * Per-submission token: an HMAC over the nonce stored on the task, so a leaked
+ * callback URL only authenticates callbacks for that one task
+ */
+function getCallbackToken(secret: string, nonce: string): string {
+  return crypto.createHmac('sha256', secret).update(`kie-callback:v2:${nonce}`).digest('hex');
+}
+
+/**
+ * Append the task's token to a callback URL so the callback can be authenticated
+ * even when the provider does not sign its requests. `nonce` must be saved as the
+ * task's `callback_nonce`.
+ */
+export function signKieCallbackUrl(callBackUrl: string, nonce: string): string {
+  const secret = process.env.KIE_CALLBACK_SECRET;
+  if (!secret) {
+    return callBackUrl;
+  }
+
+  const url = new URL(callBackUrl);
+  url.searchParams.set('token', getCallbackToken(secret, nonce));
+  return url.toString();
+}
+
+/**
+ * Verify a callback with KIE_CALLBACK_SECRET: either an HMAC-SHA256 signature over
+ * `${timestamp}.${rawBody}`, or the URL token from signKieCallbackUrl for this task.
+ * Without a configured secret, callbacks are only accepted in development.
+ */
+export function verifyKieCallback(
+  request: KieCallbackRequest,
+  task: Pick<GenerationTask, 'callbackNonce'> | null
+): boolean {
+  const secret = process.env.KIE_CALLBACK_SECRET;
+  if (!secret) {
+    if (process.env.NODE_ENV === 'development') {
+      console.warn('⚠️ KIE_CALLBACK_SECRET not set, accepting unverified callback in development');
+      return true;
+    }
+    console.error('KIE_CALLBACK_SECRET not set, rejecting callback');
+    return false;
+  }
+
+  if (request.signature) {
+    const timestamp = Number(request.timestamp);
+    if (!Number.isFinite(timestamp) || Math.abs(Date.now() / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+      return false;
+    }
+
+    const expected = crypto
+      .createHmac('sha256', secret)
+      .update(`${request.timestamp}.${request.rawBody}`)
+      .digest('hex');
+
+    return safeEqual(request.signature.replace(/^sha256=/, ''), expected);
+  }
+
+  if (request.token && task?.callbackNonce) {
+    return safeEqual(request.token, getCallbackToken(secret, task.callbackNonce));
+  }
+
+  return false;
+}
+
+/**
+ * VEO3 sends `resultUrls` either as an array or as a JSON-encoded string
+ */
+function parseResultUrls(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.filter((url): url is string => typeof url === 'string');
+  }
+  if (typeof value === 'string') {
+    try {
+      return parseResultUrls(JSON.parse(value));
+    } catch {
+      return value ? [value] : [];
+    }
+  }
+  return [];
+}
+
+export function getCallbackTaskId(payload: any): string | undefined {
+  return payload?.data?.taskId || payload?.data?.task_id || undefined;
+}
+
+/**
+ * Normalize the KIE callback payload for a provider
+ *
+ * VEO3:   { code, msg, data: { taskId, info: { resultUrls, resolution } } }
+ * Runway: { code, msg, data: { task_id, video_url, image_url } }
+ */
+export function parseKieCallbackPayload(payload: any, provider: VideoProviderId): KieCallbackResult {
+  const taskId = getCallbackTaskId(payload);
+  if (!taskId) {
+    throw new Error('Callback payload has no task ID');
+  }
+
+  const data = payload.data || {};
+
+  if (payload.code !== 200) {
+    return { taskId, status: 'failed', error: payload.msg || `Generation failed with code ${payload.code}` };
+  }
+
+  if (provider === 'runway') {
+    if (!data.video_url) {
+      return { taskId, status: 'failed', error: 'Callback reported success without a video URL' };
+    }
+    return { taskId, status: 'completed', videoUrl: data.video_url, thumbnailUrl: data.image_url || undefined };
+  }
+
+  const [videoUrl] = parseResultUrls(data.info?.resultUrls);
+  if (!videoUrl) {
+    return { taskId, status: 'failed', error: 'Callback reported success without a video URL' };
+  }
+  return { taskId, status: 'completed', videoUrl, resolution: data.info?.resolution };
+}
+
+/**
+ * Mark a task failed, release its credit hold and refund any up-front charge.
+ * Only the caller that moves the task into `failed` refunds; returns the credits refunded.
+ */
+export async function failGenerationTask(task: GenerationTask, error: string): Promise<number> {
+  const transition = await transitionGenerationTask(task.taskId, 'failed', { lastError: error });
+  if (!transition.success) {
+    console.warn(`Not failing task ${task.taskId}: ${transition.error}`);
+    return 0;
+  }
+
+  await releaseCreditHold({ taskId: task.taskId });
+
+  if (!task.userId) {
+    return 0;
+  }
+
+  const refund = await refundTaskCredits(task.userId, task.taskId, 'Refund for failed video generation');
+  if (!refund.success) {
+    console.error(`Failed to refund credits for task ${task.taskId}: ${refund.error}`);
+    return 0;
+  }
+
+  return refund.refunded || 0;
+}
+
+/**
+ * Ingest a finished video for a task and mark it completed. If ingestion fails
+ * the task is failed and refunded instead.
+ */
+export async function completeGenerationTask(
+  task: GenerationTask,
+  result: Pick<KieCallbackResult, 'videoUrl' | 'thumbnailUrl' | 'resolution'>
+): Promise<{ success: boolean; videoId?: string; failed?: boolean; refunded?: number; error?: string }> {
+  const processing = await transitionGenerationTask(task.taskId, 'processing');
+  if (!processing.success) {
+    return { success: false, error: processing.error };
+  }
+
+  try {
+    if (!result.videoUrl) {
+      throw new Error('No video URL for completed task');
+    }
+
+    const processed = await completeVideoProcessing(result.videoUrl, result.thumbnailUrl, {
+      taskId: task.taskId,
+      userId: task.userId || undefined,
+      provider: task.provider,
+      creditCost: task.creditCost ?? undefined,
+      originalPrompt: task.options.prompt,
+      // Tasks stored without a model ran on the provider's default
+      model: task.model || getVideoProvider(task.provider).capabilities.defaultModel,
+      duration: task.options.duration,
+      quality: result.resolution || task.options.quality,
+      aspectRatio: task.options.aspectRatio
+    });
+
+    await transitionGenerationTask(task.taskId, 'completed', {
+      videoId: processed.videoId,
+      resultVideoKey: processed.videoKey,
+      resultThumbnailKey: processed.thumbnailKey,
+      lastError: null
+    });
+    return { success: true, videoId: processed.videoId };
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Video processing failed';
+    console.error(`❌ Failed to process result for task ${task.taskId}:`, error);
+    const refunded = await failGenerationTask(task, message);
+    return { success: false, failed: true, refunded, error: message };
+  }
+}
+
+/**
+ * Authenticate, parse and apply a KIE callback: completed tasks are ingested via
+ * completeVideoProcessing, failed tasks release/refund their credits.
+ * Duplicate deliveries are acknowledged without side effects.
+ */
+export async function handleKieCallback(request: KieCallbackRequest): Promise<KieCallbackResponse> {
+  let payload: any;
+  try {
+    payload = JSON.parse(request.rawBody);
+  } catch {
+    return { status: 400, body: { success: false, error: 'Invalid JSON payload' } };
+  }
+
+  const taskId = getCallbackTaskId(payload);
+  if (!taskId) {
+    return { status: 400, body: { success: false, error: 'Missing task ID' } };
+  }
+
+  // URL tokens are per task, so the task is loaded before the callback is authenticated
+  const task = await getGenerationTask(taskId);
+  if (!verifyKieCallback(request, task)) {
+    return { status: 401, body: { success: false, error: 'Invalid callback signature' } };
+  }
+
+  if (!task) {
+    return { status: 404, body: { success: false, taskId, error: 'Unknown task' } };
+  }
+
+  const claim = await claimGenerationTaskCallback(taskId);
+  if (!claim.success) {
+    // Not acknowledged, so the provider retries the delivery
+    return { status: 500, body: { success: false, taskId, error: claim.error } };
+  }
+
+  if (!claim.claimed) {
+    console.log(`↩️ Duplicate callback for task ${taskId} ignored`);
+    return { status: 200, body: { success: true, taskId, duplicate: true } };
+  }
+
+  const result = parseKieCallbackPayload(payload, task.provider);
+  console.log(`📨 KIE callback for task ${taskId}: ${result.status}`);
+
+  if (result.status === 'failed') {
+    await failGenerationTask(task, result.error || 'Generation failed');
+    return { status: 200, body: { success: true, taskId } };
+  }
+
+  const completion = await completeGenerationTask(task, result);
+  if (!completion.success && !completion.failed) {
+    // The task could not move to processing (e.g. already reaped)
+    return { status: 409, body: { success: false, taskId, error: completion.error } };
+  }
+
+  // Acknowledge failures too so the provider stops retrying; the task is already marked failed
+  return { status: 200, body: { success: completion.success, taskId, error: completion.error } };
+}
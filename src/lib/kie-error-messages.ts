@@ -0,0 +1,168 @@
+import { defaultLocale, Locale, locales } from '../i18n/config';
+import { KieErrorCode, KieFieldError, KieFieldErrorCode, isKieError } from './kie-errors';
+
+const errorMessages: Record<Locale, Record<KieErrorCode, string>> = {
+  en: {
+    VALIDATION_FAILED: 'Some generation settings are invalid.',
+    BAD_REQUEST: 'The video service rejected the request.',
+    UNAUTHORIZED: 'The video service API key is invalid. Please check the configuration.',
+    FORBIDDEN: 'Access to the video service was denied.',
+    ENDPOINT_NOT_FOUND: 'The video service endpoint was not found. Please check the API URL.',
+    RATE_LIMITED: 'Too many requests. Please try again later.',
+    QUEUE_TIMEOUT: 'The video service is busy. Please try again in a moment.',
+    SERVER_ERROR: 'The video service is having problems. Please try again later.',
+    API_ERROR: 'The video service returned an error.',
+    TIMEOUT: 'The video service timed out. Please try again.',
+    CONNECTION_REFUSED: 'Could not connect to the video service.',
+    DNS_FAILURE: 'Could not resolve the video service address. Please check the API URL.',
+    NETWORK_ERROR: 'A network error occurred. Please try again.',
+    INVALID_RESPONSE: 'The video service returned an unexpected response.',
+    TASK_NOT_FOUND: 'This generation task could not be found.',
+    DUPLICATE_REQUEST: 'This request was already submitted. Check its result or retry with a new request.',
+    INSUFFICIENT_CREDITS: 'You do not have enough credits for this video.',
+    CREDIT_HOLD_FAILED: 'Credits could not be reserved. Please try again.',
+    CONFIGURATION_ERROR: 'The video service is not configured.',
+    UNKNOWN: 'Something went wrong. Please try again.'
+  },
+  zh: {
+    VALIDATION_FAILED: '参数验证失败',
+    BAD_REQUEST: '请求参数错误',
+    UNAUTHORIZED: 'API密钥无效，请检查配置',
+    FORBIDDEN: 'API访问被拒绝，请检查权限',
+    ENDPOINT_NOT_FOUND: 'API端点不存在，请检查URL配置',
+    RATE_LIMITED: '请求过于频繁，请稍后再试',
+    QUEUE_TIMEOUT: '视频服务繁忙，请稍后再试',
+    SERVER_ERROR: '服务器内部错误，请稍后重试',
+    API_ERROR: 'KIE API错误',
+    TIMEOUT: '请求超时，请检查网络连接',
+    CONNECTION_REFUSED: '连接被拒绝，请检查API服务是否可用',
+    DNS_FAILURE: '域名解析失败，请检查网络连接和API URL',
+    NETWORK_ERROR: '网络请求失败，请稍后重试',
+    INVALID_RESPONSE: 'KIE API返回无效的响应格式',
+    TASK_NOT_FOUND: '任务不存在',
+    DUPLICATE_REQUEST: '该请求已提交过，请稍后查询结果或重新发起请求',
+    INSUFFICIENT_CREDITS: '积分不足',
+    CREDIT_HOLD_FAILED: '积分预留失败，请稍后重试',
+    CONFIGURATION_ERROR: '视频服务未配置',
+    UNKNOWN: '发生未知错误，请稍后重试'
+  },
+  de: {
+    VALIDATION_FAILED: 'Einige Einstellungen für die Generierung sind ungültig.',
+    BAD_REQUEST: 'Der Videodienst hat die Anfrage abgelehnt.',
+    UNAUTHORIZED: 'Der API-Schlüssel des Videodienstes ist ungültig. Bitte die Konfiguration prüfen.',
+    FORBIDDEN: 'Der Zugriff auf den Videodienst wurde verweigert.',
+    ENDPOINT_NOT_FOUND: 'Der Endpunkt des Videodienstes wurde nicht gefunden. Bitte die API-URL prüfen.',
+    RATE_LIMITED: 'Zu viele Anfragen. Bitte später erneut versuchen.',
+    QUEUE_TIMEOUT: 'Der Videodienst ist ausgelastet. Bitte gleich erneut versuchen.',
+    SERVER_ERROR: 'Der Videodienst hat Probleme. Bitte später erneut versuchen.',
+    API_ERROR: 'Der Videodienst hat einen Fehler gemeldet.',
+    TIMEOUT: 'Zeitüberschreitung beim Videodienst. Bitte erneut versuchen.',
+    CONNECTION_REFUSED: 'Keine Verbindung zum Videodienst möglich.',
+    DNS_FAILURE: 'Die Adresse des Videodienstes konnte nicht aufgelöst werden. Bitte die API-URL prüfen.',
+    NETWORK_ERROR: 'Netzwerkfehler. Bitte erneut versuchen.',
+    INVALID_RESPONSE: 'Der Videodienst hat eine unerwartete Antwort geliefert.',
+    TASK_NOT_FOUND: 'Dieser Generierungsauftrag wurde nicht gefunden.',
+    DUPLICATE_REQUEST: 'Diese Anfrage wurde bereits gesendet. Bitte das Ergebnis prüfen oder eine neue Anfrage starten.',
+    INSUFFICIENT_CREDITS: 'Nicht genügend Credits für dieses Video.',
+    CREDIT_HOLD_FAILED: 'Credits konnten nicht reserviert werden. Bitte erneut versuchen.',
+    CONFIGURATION_ERROR: 'Der Videodienst ist nicht konfiguriert.',
+    UNKNOWN: 'Etwas ist schiefgelaufen. Bitte erneut versuchen.'
+  },
+  fr: {
+    VALIDATION_FAILED: 'Certains paramètres de génération sont invalides.',
+    BAD_REQUEST: 'Le service vidéo a refusé la requête.',
+    UNAUTHORIZED: 'La clé API du service vidéo est invalide. Veuillez vérifier la configuration.',
+    FORBIDDEN: 'L’accès au service vidéo a été refusé.',
+    ENDPOINT_NOT_FOUND: 'Le point de terminaison du service vidéo est introuvable. Veuillez vérifier l’URL de l’API.',
+    RATE_LIMITED: 'Trop de requêtes. Veuillez réessayer plus tard.',
+    QUEUE_TIMEOUT: 'Le service vidéo est saturé. Veuillez réessayer dans un instant.',
+    SERVER_ERROR: 'Le service vidéo rencontre des problèmes. Veuillez réessayer plus tard.',
+    API_ERROR: 'Le service vidéo a renvoyé une erreur.',
+    TIMEOUT: 'Le service vidéo ne répond pas. Veuillez réessayer.',
+    CONNECTION_REFUSED: 'Impossible de se connecter au service vidéo.',
+    DNS_FAILURE: 'Impossible de résoudre l’adresse du service vidéo. Veuillez vérifier l’URL de l’API.',
+    NETWORK_ERROR: 'Une erreur réseau est survenue. Veuillez réessayer.',
+    INVALID_RESPONSE: 'Le service vidéo a renvoyé une réponse inattendue.',
+    TASK_NOT_FOUND: 'Cette tâche de génération est introuvable.',
+    DUPLICATE_REQUEST: 'Cette requête a déjà été envoyée. Consultez son résultat ou lancez une nouvelle requête.',
+    INSUFFICIENT_CREDITS: 'Vous n’avez pas assez de crédits pour cette vidéo.',
+    CREDIT_HOLD_FAILED: 'Impossible de réserver les crédits. Veuillez réessayer.',
+    CONFIGURATION_ERROR: 'Le service vidéo n’est pas configuré.',
+    UNKNOWN: 'Une erreur est survenue. Veuillez réessayer.'
+  }
+};
+
+const fieldErrorMessages: Record<Locale, Record<KieFieldErrorCode, string>> = {
+  en: {
+    required: '{field} is required',
+    too_long: '{field} must be at most {max} characters',
+    invalid_option: '{field} must be one of {options}',
+    invalid_url: '{field} is not a valid URL',
+    unsupported_combination: '{duration}s videos are not available in {quality}',
+    unsupported_feature: '{provider} does not support {field}'
+  },
+  zh: {
+    required: '{field}是必需的',
+    too_long: '{field}不能超过{max}个字符',
+    invalid_option: '{field}必须是{options}',
+    invalid_url: '{field}不是有效的URL',
+    unsupported_combination: '{duration}秒视频不能选择{quality}分辨率',
+    unsupported_feature: '{provider}不支持{field}'
+  },
+  de: {
+    required: '{field} ist erforderlich',
+    too_long: '{field} darf höchstens {max} Zeichen lang sein',
+    invalid_option: '{field} muss einer der Werte {options} sein',
+    invalid_url: '{field} ist keine gültige URL',
+    unsupported_combination: '{duration}s-Videos sind in {quality} nicht verfügbar',
+    unsupported_feature: '{provider} unterstützt {field} nicht'
+  },
+  fr: {
+    required: '{field} est obligatoire',
+    too_long: '{field} ne doit pas dépasser {max} caractères',
+    invalid_option: '{field} doit être l’une des valeurs {options}',
+    invalid_url: '{field} n’est pas une URL valide',
+    unsupported_combination: 'Les vidéos de {duration}s ne sont pas disponibles en {quality}',
+    unsupported_feature: '{provider} ne prend pas en charge {field}'
+  }
+};
+
+export function resolveLocale(locale?: string | null): Locale {
+  const language = locale?.toLowerCase().split(/[-_]/)[0];
+  return (locales as readonly string[]).includes(language || '') ? language as Locale : defaultLocale;
+}
+
+function interpolate(template: string, params: Record<string, string | number>): string {
+  return template.replace(/\{(\w+)\}/g, (match, key) => (key in params ? String(params[key]) : match));
+}
+
+export function formatKieFieldError(fieldError: KieFieldError, locale?: string | null): string {
+  const template = fieldErrorMessages[resolveLocale(locale)][fieldError.code];
+  return interpolate(template, { field: fieldError.field, ...fieldError.params });
+}
+
+/**
+ * Render any error for display in the user's locale. Non-KIE errors get the
+ * generic message so internal details never reach the UI.
+ */
+export function formatKieError(
+  error: unknown,
+  locale?: string | null
+): { code: KieErrorCode; message: string; fieldErrors?: { field: string; message: string }[] } {
+  const resolved = resolveLocale(locale);
+
+  if (!isKieError(error)) {
+    return { code: 'UNKNOWN', message: errorMessages[resolved].UNKNOWN };
+  }
+
+  const fieldErrors = (error.details?.fieldErrors as KieFieldError[] | undefined)?.map(fieldError => ({
+    field: fieldError.field,
+    message: formatKieFieldError(fieldError, resolved)
+  }));
+
+  return {
+    code: error.code,
+    message: errorMessages[resolved][error.code],
+    ...(fieldErrors && { fieldErrors })
+  };
+}
@@ -0,0 +1,139 @@
+// Typed errors thrown by the KIE client. Codes are stable and safe to switch on;
+// `message` is an English developer message, use formatKieError for user-facing text.
+
+export type KieErrorCode =
+  | 'VALIDATION_FAILED'
+  | 'BAD_REQUEST'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'ENDPOINT_NOT_FOUND'
+  | 'RATE_LIMITED'
+  | 'QUEUE_TIMEOUT'
+  | 'SERVER_ERROR'
+  | 'API_ERROR'
+  | 'TIMEOUT'
+  | 'CONNECTION_REFUSED'
+  | 'DNS_FAILURE'
+  | 'NETWORK_ERROR'
+  | 'INVALID_RESPONSE'
+  | 'TASK_NOT_FOUND'
+  | 'DUPLICATE_REQUEST'
+  | 'INSUFFICIENT_CREDITS'
+  | 'CREDIT_HOLD_FAILED'
+  | 'CONFIGURATION_ERROR'
+  | 'UNKNOWN';
+
+export type KieFieldErrorCode =
+  | 'required'
+  | 'too_long'
+  | 'invalid_option'
+  | 'invalid_url'
+  | 'unsupported_combination'
+  | 'unsupported_feature';
+
+export interface KieFieldError {
+  field: string;
+  code: KieFieldErrorCode;
+  // Values for message interpolation, e.g. { max: 1800 } or { options: '5, 8' }
+  params?: Record<string, string | number>;
+}
+
+export class KieError extends Error {
+  readonly code: KieErrorCode;
+  // HTTP status to report for this error (the upstream status for API errors)
+  readonly status: number;
+  readonly retryable: boolean;
+  readonly details?: Record<string, unknown>;
+
+  constructor(
+    code: KieErrorCode,
+    message: string,
+    options: { status?: number; retryable?: boolean; details?: Record<string, unknown> } = {}
+  ) {
+    super(message);
+    // Keep instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = new.target.name;
+    this.code = code;
+    this.status = options.status ?? 500;
+    this.retryable = options.retryable ?? false;
+    this.details = options.details;
+  }
+
+  toJSON() {
+    return {
+      name: this.name,
+      code: this.code,
+      status: this.status,
+      retryable: this.retryable,
+      message: this.message,
+      details: this.details
+    };
+  }
+}
+
+export class KieValidationError extends KieError {
+  readonly fieldErrors: KieFieldError[];
+
+  constructor(fieldErrors: KieFieldError[]) {
+    super(
+      'VALIDATION_FAILED',
+      `Invalid generation options: ${fieldErrors.map(e => `${e.field} (${e.code})`).join(', ')}`,
+      { status: 400, details: { fieldErrors } }
+    );
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+/**
+ * The KIE API answered with an error status or error body
+ */
+export class KieApiError extends KieError {
+  readonly retryAfterMs?: number;
+
+  constructor(
+    code: KieErrorCode,
+    message: string,
+    options: { status: number; retryable?: boolean; retryAfterMs?: number; details?: Record<string, unknown> }
+  ) {
+    super(code, message, options);
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+export class KieRateLimitError extends KieApiError {
+  constructor(retryAfterMs?: number, details?: Record<string, unknown>) {
+    super('RATE_LIMITED', 'KIE API rate limit exceeded', { status: 429, retryable: true, retryAfterMs, details });
+  }
+}
+
+export class KieAuthError extends KieApiError {
+  constructor(status: 401 | 403, details?: Record<string, unknown>) {
+    super(
+      status === 401 ? 'UNAUTHORIZED' : 'FORBIDDEN',
+      status === 401 ? 'KIE API key is invalid' : 'KIE API access denied',
+      { status, details }
+    );
+  }
+}
+
+/**
+ * The request failed before an HTTP response was received
+ */
+export class KieNetworkError extends KieError {
+  constructor(
+    code: Extract<KieErrorCode, 'TIMEOUT' | 'CONNECTION_REFUSED' | 'DNS_FAILURE' | 'NETWORK_ERROR'>,
+    networkCode: string | undefined,
+    retryable: boolean
+  ) {
+    super(code, `KIE API network error: ${networkCode || 'unknown'}`, {
+      status: code === 'TIMEOUT' ? 504 : 503,
+      retryable,
+      details: networkCode ? { networkCode } : undefined
+    });
+  }
+}
+
+export function isKieError(error: unknown): error is KieError {
+  return error instanceof KieError;
+}
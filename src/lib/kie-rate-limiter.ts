@@ -0,0 +1,190 @@
+import crypto from 'crypto';
+import { KieError } from './kie-errors';
+
+export interface KieRateLimitConfig {
+  // Sustained request rate (token bucket refill)
+  requestsPerSecond: number;
+  // Bucket capacity: how many requests may be sent back to back
+  burst: number;
+  // Maximum requests in flight at once
+  maxInFlight: number;
+  // How long a request may queue for a token/slot before failing with QUEUE_TIMEOUT
+  maxWaitMs: number;
+  // In-flight slots expire after this long, so a crashed instance cannot leak them
+  leaseMs: number;
+}
+
+/**
+ * Where limiter state lives. The in-memory store only limits a single process;
+ * a shared store (e.g. Redis) makes the limits hold across instances.
+ */
+export interface RateLimitStore {
+  // Take one token; when none is available, report how long until the next one
+  takeToken(key: string, capacity: number, refillPerSecond: number): Promise<{ acquired: boolean; retryAfterMs: number }>;
+  // Returns a lease ID, or null when `limit` slots are already taken
+  acquireSlot(key: string, limit: number, leaseMs: number): Promise<string | null>;
+  releaseSlot(key: string, leaseId: string): Promise<void>;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, { tokens: number; updatedAt: number }>();
+  private leases = new Map<string, Map<string, number>>();
+
+  async takeToken(key: string, capacity: number, refillPerSecond: number) {
+    const now = Date.now();
+    const bucket = this.buckets.get(key) || { tokens: capacity, updatedAt: now };
+    const tokens = Math.min(capacity, bucket.tokens + ((now - bucket.updatedAt) / 1000) * refillPerSecond);
+
+    if (tokens >= 1) {
+      this.buckets.set(key, { tokens: tokens - 1, updatedAt: now });
+      return { acquired: true, retryAfterMs: 0 };
+    }
+
+    this.buckets.set(key, { tokens, updatedAt: now });
+    return { acquired: false, retryAfterMs: Math.ceil(((1 - tokens) / refillPerSecond) * 1000) };
+  }
+
+  async acquireSlot(key: string, limit: number, leaseMs: number) {
+    const now = Date.now();
+    const leases = this.leases.get(key) || new Map<string, number>();
+
+    leases.forEach((expiresAt, leaseId) => {
+      if (expiresAt <= now) {
+        leases.delete(leaseId);
+      }
+    });
+
+    if (leases.size >= limit) {
+      this.leases.set(key, leases);
+      return null;
+    }
+
+    const leaseId = crypto.randomUUID();
+    leases.set(leaseId, now + leaseMs);
+    this.leases.set(key, leases);
+    return leaseId;
+  }
+
+  async releaseSlot(key: string, leaseId: string) {
+    this.leases.get(key)?.delete(leaseId);
+  }
+}
+
+const DEFAULT_RATE_LIMIT: KieRateLimitConfig = {
+  requestsPerSecond: 2,
+  burst: 5,
+  maxInFlight: 10,
+  maxWaitMs: 30000,
+  leaseMs: 120000
+};
+
+const SLOT_POLL_INTERVAL_MS = 100;
+
+/**
+ * Limits are read from KIE_RATE_LIMITS, a JSON object keyed by `provider` or
+ * `provider:model`, e.g.
+ * {"veo3": {"requestsPerSecond": 1, "maxInFlight": 5}, "veo3:veo3": {"burst": 2}}
+ * The provider limit is a total across all of its models and requests; a
+ * `provider:model` entry adds a tighter limit for that model on top of it.
+ */
+function loadRateLimitOverrides(): Record<string, Partial<KieRateLimitConfig>> {
+  const raw = process.env.KIE_RATE_LIMITS;
+  if (!raw) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(raw);
+  } catch (error) {
+    console.error('Invalid KIE_RATE_LIMITS, using defaults:', error);
+    return {};
+  }
+}
+
+export class KieRateLimiter {
+  private store: RateLimitStore;
+  private overrides: Record<string, Partial<KieRateLimitConfig>>;
+
+  constructor(
+    store: RateLimitStore = new MemoryRateLimitStore(),
+    overrides: Record<string, Partial<KieRateLimitConfig>> = loadRateLimitOverrides()
+  ) {
+    this.store = store;
+    this.overrides = overrides;
+  }
+
+  getConfig(provider: string, model?: string): KieRateLimitConfig {
+    return {
+      ...DEFAULT_RATE_LIMIT,
+      ...this.overrides[provider],
+      ...(model ? this.overrides[`${provider}:${model}`] : undefined)
+    };
+  }
+
+  /**
+   * Provider-wide bucket first, plus a per-model bucket when that model has its own limit
+   */
+  private getLimits(provider: string, model?: string): Array<{ key: string; config: KieRateLimitConfig }> {
+    const limits = [{ key: `kie:${provider}`, config: this.getConfig(provider) }];
+    if (model && this.overrides[`${provider}:${model}`]) {
+      limits.push({ key: `kie:${provider}:${model}`, config: this.getConfig(provider, model) });
+    }
+    return limits;
+  }
+
+  /**
+   * Run `requestFn` once an in-flight slot and a rate token are available in every
+   * applicable bucket, waiting up to `maxWaitMs` before failing with QUEUE_TIMEOUT
+   */
+  async schedule<T>(provider: string, model: string | undefined, requestFn: () => Promise<T>): Promise<T> {
+    const deadline = Date.now() + this.getConfig(provider, model).maxWaitMs;
+    // Narrowest bucket first, so a request waiting on its model's limit holds no provider slot
+    const ordered = this.getLimits(provider, model).reverse();
+    const leases: Array<{ key: string; leaseId: string }> = [];
+
+    try {
+      for (const { key, config } of ordered) {
+        leases.push({ key, leaseId: await this.waitForSlot(key, config, deadline) });
+      }
+      for (const { key, config } of ordered) {
+        await this.waitForToken(key, config, deadline);
+      }
+      return await requestFn();
+    } finally {
+      for (const { key, leaseId } of leases) {
+        await this.store.releaseSlot(key, leaseId);
+      }
+    }
+  }
+
+  private async waitForSlot(key: string, config: KieRateLimitConfig, deadline: number): Promise<string> {
+    while (true) {
+      const leaseId = await this.store.acquireSlot(key, config.maxInFlight, config.leaseMs);
+      if (leaseId) {
+        return leaseId;
+      }
+      await this.waitUntilDeadline(key, SLOT_POLL_INTERVAL_MS, deadline);
+    }
+  }
+
+  private async waitForToken(key: string, config: KieRateLimitConfig, deadline: number): Promise<void> {
+    while (true) {
+      const { acquired, retryAfterMs } = await this.store.takeToken(key, config.burst, config.requestsPerSecond);
+      if (acquired) {
+        return;
+      }
+      await this.waitUntilDeadline(key, retryAfterMs, deadline);
+    }
+  }
+
+  private async waitUntilDeadline(key: string, delayMs: number, deadline: number): Promise<void> {
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) {
+      throw new KieError('QUEUE_TIMEOUT', `Timed out waiting for KIE rate limit (${key})`, {
+        status: 503,
+        details: { key }
+      });
+    }
+    await new Promise(resolve => setTimeout(resolve, Math.min(delayMs, remaining)));
+  }
+}
@@ -1,4 +1,26 @@
 import axios, { AxiosInstance, AxiosError } from 'axios';
+import crypto from 'crypto';
+import { holdCredits, attachCreditHoldToTask, releaseCreditHold } from './credits-manager';
+import { getVideoProvider, VideoProvider, VideoProviderId } from './video-providers';
+import { signKieCallbackUrl } from './kie-callback';
+import {
+  createGenerationTask,
+  getGenerationTask,
+  getGenerationTaskByIdempotencyKey,
+  GenerationTask
+} from './generation-tasks';
+import {
+  KieError,
+  KieApiError,
+  KieAuthError,
+  KieFieldError,
+  KieNetworkError,
+  KieRateLimitError,
+  KieValidationError
+} from './kie-errors';
+import { KieRateLimiter } from './kie-rate-limiter';
+import { calculateVideoCreditCost } from './video-pricing';
+import { createTaskResultUrls } from './video-access';
 
 export interface VideoGenerationOptions {
   prompt: string;
@@ -8,8 +30,17 @@ export interface VideoGenerationOptions {
   aspectRatio: '16:9' | '4:3' | '1:1' | '3:4' | '9:16';
   waterMark?: string;
   callBackUrl: string;
-  provider?: 'runway' | 'veo3';
-  model?: string; // VEO3 model: 'veo3_fast' or 'veo3'
+  provider?: VideoProviderId;
+  model?: string; // Must be one of the provider's capabilities.models
+  // Repeated calls with the same key return the original task instead of submitting again
+  idempotencyKey?: string;
+  // Reserve credits for this generation; captured on completion, released on failure
+  billing?: {
+    userId: string;
+    // A previously quoted price; otherwise priced from video_pricing_rules
+    credits?: number;
+    description?: string;
+  };
 }
 
 export interface VideoGenerationResult {
@@ -21,6 +52,8 @@ export interface VideoGenerationResult {
     duration?: number;
   };
   error?: string;
+  holdId?: string;
+  replayed?: boolean;
 }
 
 export interface TaskStatus {
@@ -29,18 +62,33 @@ export interface TaskStatus {
   result?: {
     videoUrl?: string;
     thumbnailUrl?: string;
+    // When signed result URLs stop working
+    expiresAt?: string;
     duration?: number;
   };
   error?: string;
   progress?: number;
 }
 
+const RETRYABLE_STATUSES = [408, 425, 429, 500, 502, 503, 504];
+const RETRYABLE_NETWORK_CODES = ['ECONNRESET', 'ECONNABORTED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN', 'ECONNREFUSED'];
+const UNSENT_NETWORK_CODES = ['ECONNREFUSED', 'EAI_AGAIN'];
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 30000;
+const RETRY_AFTER_MAX_MS = 60000;
+
 export class KieVeo3Client {
   private client: AxiosInstance;
   private maxRetries: number;
+  private rateLimiter?: KieRateLimiter;
+  private inFlightGenerations = new Map<string, Promise<VideoGenerationResult>>();
 
-  constructor(apiKey: string, options: { maxRetries?: number; timeout?: number } = {}) {
+  constructor(
+    apiKey: string,
+    options: { maxRetries?: number; timeout?: number; rateLimiter?: KieRateLimiter } = {}
+  ) {
     this.maxRetries = options.maxRetries || 3;
+    this.rateLimiter = options.rateLimiter;
     
     const baseURL = process.env.KIE_BASE_URL || 'https://api.kie.ai/api/v1';
     console.log('KIE Client Configuration:', {
@@ -117,9 +165,50 @@ export class KieVeo3Client {
   }
 
   async generateVideo(options: VideoGenerationOptions): Promise<VideoGenerationResult> {
-    this.validateGenerationOptions(options);
-    
-    const provider = options.provider || 'veo3';
+    if (!options.idempotencyKey) {
+      return this.submitVideo(options, crypto.randomUUID());
+    }
+
+    // Keys are chosen by callers, so they only identify a request within one user's scope
+    const key = `${options.billing?.userId ?? 'anonymous'}:${options.idempotencyKey}`;
+
+    // Collapse concurrent calls with the same key in this process
+    const inFlight = this.inFlightGenerations.get(key);
+    if (inFlight) {
+      return inFlight.then(result => ({ ...result, replayed: true }));
+    }
+
+    const promise = this.submitVideo(options, key).finally(() => {
+      this.inFlightGenerations.delete(key);
+    });
+    this.inFlightGenerations.set(key, promise);
+    return promise;
+  }
+
+  private async findReplayedGeneration(options: VideoGenerationOptions): Promise<VideoGenerationResult | null> {
+    if (!options.idempotencyKey) {
+      return null;
+    }
+
+    const existing = await getGenerationTaskByIdempotencyKey(options.billing?.userId ?? null, options.idempotencyKey);
+    if (!existing) {
+      return null;
+    }
+
+    console.log(`↩️ Generation already submitted for key ${options.idempotencyKey}: task ${existing.taskId}`);
+    const status = await this.toTaskStatus(existing);
+    return {
+      taskId: status.taskId,
+      status: status.status,
+      result: status.result,
+      error: status.error,
+      replayed: true
+    };
+  }
+
+  private async submitVideo(options: VideoGenerationOptions, idempotencyKey: string): Promise<VideoGenerationResult> {
+    const provider = getVideoProvider(options.provider);
+    this.validateGenerationOptions(options, provider);
     
     // Test mode: return mock data
     if (process.env.NODE_ENV === 'development' && process.env.KIE_TEST_MODE === 'true') {
@@ -129,45 +218,132 @@ export class KieVeo3Client {
         status: 'pending'
       };
     }
-    const endpoint = provider === 'runway' ? '/runway/generate' : '/veo/generate';
-    
-    // Model selection based on provider and options
-    let model: string;
-    if (provider === 'runway') {
-      model = 'runway-duration-5-generate';
-    } else {
-      // VEO3: use provided model or default to veo3_fast
-      model = options.model || 'veo3_fast';
+    const callbackNonce = crypto.randomUUID();
+    const requestData = provider.buildGenerateRequest({
+      ...options,
+      callBackUrl: signKieCallbackUrl(options.callBackUrl, callbackNonce)
+    });
+
+    // Log the unsigned callback URL so the token never ends up in logs
+    console.log(
+      `KIE ${provider.id.toUpperCase()} API request data:`,
+      JSON.stringify({ ...requestData, callBackUrl: options.callBackUrl }, null, 2)
+    );
+
+    const replayed = await this.findReplayedGeneration(options);
+    if (replayed) {
+      return replayed;
     }
-    
-    // Format the request according to new KIE API documentation
-    const requestData: any = {
-      prompt: options.prompt,
-      model: model,
-      duration: options.duration,
-      quality: options.quality,
-      aspectRatio: options.aspectRatio,
-      waterMark: options.waterMark || '',
-      callBackUrl: options.callBackUrl,
-      enableFallback: false
-    };
 
-    // Handle image parameters based on provider
-    if (options.imageUrl) {
-      if (provider === 'runway') {
-        // Runway uses imageUrl
-        requestData.imageUrl = options.imageUrl;
+    let creditCost = options.billing?.credits;
+    if (creditCost === undefined) {
+      const quote = await calculateVideoCreditCost({
+        provider: provider.id,
+        model: typeof requestData.model === 'string' ? requestData.model : undefined,
+        duration: options.duration,
+        quality: options.quality,
+        imageToVideo: !!options.imageUrl
+      });
+      if (quote.success) {
+        creditCost = quote.credits;
+      } else if (options.billing) {
+        throw new KieError('CONFIGURATION_ERROR', quote.error || 'Failed to price generation');
+      }
+    }
+
+    let holdId: string | undefined;
+    // Free generations (a 0-credit rule) have nothing to reserve; holds must be positive
+    if (options.billing && creditCost !== undefined && creditCost > 0) {
+      // The hold is keyed too, and placing it locks the user's balance row, so only one
+      // caller per key across processes gets past this point
+      const hold = await holdCredits(
+        options.billing.userId,
+        creditCost,
+        options.billing.description || `Video generation (${provider.id})`,
+        { idempotencyKey: `generate:${idempotencyKey}` }
+      );
+      if (!hold.success) {
+        throw hold.error === 'Insufficient credits'
+          ? new KieError('INSUFFICIENT_CREDITS', 'Insufficient credits for generation', { status: 402 })
+          : new KieError('CREDIT_HOLD_FAILED', hold.error || 'Failed to reserve credits');
+      }
+      if (hold.replayed) {
+        const replayedTask = await this.findReplayedGeneration(options);
+        if (replayedTask) {
+          return { ...replayedTask, holdId: hold.holdId };
+        }
+        // Only active holds are replayed (released/expired ones end an attempt), so another
+        // submission with this key is still in flight: retry once it has settled
+        throw new KieError('DUPLICATE_REQUEST', `A generation for idempotency key ${idempotencyKey} is already in progress`, {
+          status: 409,
+          retryable: true,
+          details: { idempotencyKey }
+        });
+      }
+      holdId = hold.holdId;
+    }
+
+    let result: VideoGenerationResult;
+    let attempts = 0;
+    try {
+      result = await this.submitGeneration(provider, requestData, idempotencyKey, () => attempts++);
+    } catch (error) {
+      // Timeouts and resets may still have created a task upstream, but without a task ID it
+      // can never be charged or delivered, so the user is not billed and a retry starts afresh
+      if (holdId) {
+        await releaseCreditHold({ holdId });
+      }
+      throw error;
+    }
+
+    if (holdId) {
+      if (result.status === 'failed') {
+        await releaseCreditHold({ holdId });
       } else {
-        // VEO3 uses imageUrls array
-        requestData.imageUrls = [options.imageUrl];
+        await attachCreditHoldToTask(holdId, result.taskId);
       }
     }
 
-    console.log(`KIE ${provider.toUpperCase()} API request data:`, JSON.stringify(requestData, null, 2));
-    
+    // Persist the task so the callback handler can advance it and getTaskStatus can report it
+    await createGenerationTask({
+      taskId: result.taskId,
+      userId: options.billing?.userId,
+      provider: provider.id,
+      model: typeof requestData.model === 'string' ? requestData.model : undefined,
+      options: {
+        prompt: options.prompt,
+        imageUrl: options.imageUrl,
+        duration: options.duration,
+        quality: options.quality,
+        aspectRatio: options.aspectRatio
+      },
+      idempotencyKey: options.idempotencyKey,
+      creditCost,
+      callbackNonce,
+      attempts,
+      status: result.status === 'failed' ? 'failed' : 'pending',
+      lastError: result.error
+    });
+
+    return { ...result, holdId };
+  }
+
+  private async submitGeneration(
+    provider: VideoProvider,
+    requestData: Record<string, unknown>,
+    idempotencyKey: string,
+    onAttempt?: () => void
+  ): Promise<VideoGenerationResult> {
+    // Creating a task is not idempotent: only resend when the request provably never arrived
     return this.requestWithRetry(async () => {
-      const response = await this.client.post(endpoint, requestData);
-      console.log(`KIE ${provider.toUpperCase()} API raw response:`, {
+      const model = typeof requestData.model === 'string' ? requestData.model : undefined;
+      const response = await this.limit(provider.id, model, () => {
+        onAttempt?.();
+        return this.client.post(provider.generateEndpoint, requestData, {
+          headers: { 'Idempotency-Key': idempotencyKey }
+        });
+      });
+      console.log(`KIE ${provider.id.toUpperCase()} API raw response:`, {
         status: response.status,
         headers: response.headers,
         data: response.data
@@ -222,153 +398,170 @@ export class KieVeo3Client {
             };
           }
           
-          throw new Error('KIE API响应中未找到任务ID');
+          throw new KieError('INVALID_RESPONSE', 'No task ID in KIE API response', { status: 502 });
         }
       } else {
         console.error('Invalid response format:', responseData);
-        throw new Error('KIE API返回无效的响应格式');
+        throw new KieError('INVALID_RESPONSE', 'Invalid KIE API response format', { status: 502 });
       }
-    });
+    }, { idempotent: false });
   }
 
-  async getTaskStatus(taskId: string, provider: 'runway' | 'veo3' = 'veo3'): Promise<TaskStatus> {
-    if (provider === 'veo3') {
-      // VEO3 uses callback-only mechanism, no polling needed
-      // Return processing status until callback is received
-      console.log(`VEO3 task ${taskId}: Using callback-only mechanism, no polling required`);
-      return {
-        taskId,
-        status: 'processing',
-        result: undefined,
-        error: undefined,
-        progress: 50
-      };
+  async getTaskStatus(taskId: string, providerId: VideoProviderId = 'veo3'): Promise<TaskStatus> {
+    const provider = getVideoProvider(providerId);
+
+    if (provider.capabilities.statusMode === 'callback' || !provider.getStatusPath || !provider.parseStatus) {
+      // Callback-only providers cannot be polled, report the state recorded by the callback handler
+      const task = await getGenerationTask(taskId);
+      if (!task) {
+        throw new KieError('TASK_NOT_FOUND', `Generation task ${taskId} not found`, {
+          status: 404,
+          details: { taskId }
+        });
+      }
+      return this.toTaskStatus(task);
     }
     
-    // Handle Runway polling (existing logic)
-    const endpoint = '/runway/record-detail';
-    const url = `${endpoint}?taskId=${taskId}`;
+    const url = provider.getStatusPath(taskId);
+    const parseStatus = provider.parseStatus;
     
     return this.requestWithRetry(async () => {
-      const response = await this.client.get(url);
-      console.log(`KIE ${provider.toUpperCase()} Task Status API response:`, {
+      const response = await this.limit(provider.id, undefined, () => this.client.get(url));
+      console.log(`KIE ${provider.id.toUpperCase()} Task Status API response:`, {
         status: response.status,
         data: response.data
       });
       
       const responseData = response.data;
       
-      // Handle KIE API response format for Runway
       if (responseData && responseData.code === 200) {
-        const data = responseData.data;
-        
-        // Map KIE status to our internal status
-        let status: 'pending' | 'processing' | 'completed' | 'failed' = 'pending';
-        let progress = 0;
-        let result: { videoUrl?: string; thumbnailUrl?: string; duration?: number; } | undefined = undefined;
-        let error: string | undefined = undefined;
-        
-        // Handle Runway response format
-        if (data.state === 'success' && data.videoInfo?.videoUrl) {
-          status = 'completed';
-          progress = 100;
-          result = {
-            videoUrl: data.videoInfo.videoUrl,
-            thumbnailUrl: data.videoInfo.imageUrl,
-            duration: undefined
-          };
-        } else if (data.state === 'fail' || data.state === 'failed') {
-          status = 'failed';
-          progress = 0;
-          error = data.failMsg || 'Generation failed';
-        } else if (data.state === 'processing' || data.state === 'running') {
-          status = 'processing';
-          progress = 50;
-        } else if (data.state === 'pending' || data.state === 'queue' || data.state === 'waiting') {
-          status = 'pending';
-          progress = 10;
-        } else {
-          status = 'pending';
-          progress = 10;
-        }
-        
-        return {
-          taskId,
-          status,
-          result,
-          error,
-          progress
-        };
+        return parseStatus(taskId, responseData.data);
       } else {
-        throw new Error(`KIE API错误: ${responseData?.msg || 'Unknown error'}`);
+        throw new KieApiError('API_ERROR', `KIE API error: ${responseData?.msg || 'Unknown error'}`, {
+          status: 502,
+          details: { code: responseData?.code, msg: responseData?.msg }
+        });
       }
     });
   }
 
-  private validateGenerationOptions(options: VideoGenerationOptions): void {
-    const errors: string[] = [];
+  // Every attempt, including retries, goes through the provider/model limiter
+  private limit<T>(providerId: VideoProviderId, model: string | undefined, requestFn: () => Promise<T>): Promise<T> {
+    return this.rateLimiter ? this.rateLimiter.schedule(providerId, model, requestFn) : requestFn();
+  }
+
+  // Stored results are private objects, so their URLs are signed per read
+  private async toTaskStatus(task: GenerationTask): Promise<TaskStatus> {
+    const progress: Record<GenerationTask['status'], number> = {
+      pending: 10,
+      processing: 50,
+      completed: 100,
+      failed: 0
+    };
+
+    return {
+      taskId: task.taskId,
+      status: task.status,
+      result: task.status === 'completed'
+        ? {
+          ...(task.resultVideoKey && await createTaskResultUrls({
+            userId: task.userId,
+            videoKey: task.resultVideoKey,
+            thumbnailKey: task.resultThumbnailKey
+          })),
+          duration: task.options.duration
+        }
+        : undefined,
+      error: task.lastError || undefined,
+      progress: progress[task.status]
+    };
+  }
+
+  private validateGenerationOptions(options: VideoGenerationOptions, provider: VideoProvider): void {
+    const errors: KieFieldError[] = [];
+    const capabilities = provider.capabilities;
     
     if (!options.prompt) {
-      errors.push('prompt是必需的');
-    } else if (options.prompt.length > 1800) {
-      errors.push('prompt不能超过1800个字符');
+      errors.push({ field: 'prompt', code: 'required' });
+    } else if (options.prompt.length > capabilities.maxPromptLength) {
+      errors.push({ field: 'prompt', code: 'too_long', params: { max: capabilities.maxPromptLength } });
+    }
+    
+    if (options.model && !capabilities.models.includes(options.model)) {
+      errors.push({ field: 'model', code: 'invalid_option', params: { options: capabilities.models.join(', ') } });
     }
     
-    if (![5, 8].includes(options.duration)) {
-      errors.push('duration必须是5或8');
+    if (!capabilities.durations.includes(options.duration)) {
+      errors.push({ field: 'duration', code: 'invalid_option', params: { options: capabilities.durations.join(', ') } });
     }
     
-    if (!['720p', '1080p'].includes(options.quality)) {
-      errors.push('quality必须是720p或1080p');
+    if (!capabilities.qualities.includes(options.quality)) {
+      errors.push({ field: 'quality', code: 'invalid_option', params: { options: capabilities.qualities.join(', ') } });
     }
     
     // Check for conflicting duration/quality combinations
-    if (options.duration === 8 && options.quality === '1080p') {
-      errors.push('8秒视频不能选择1080p分辨率');
+    if (capabilities.unsupportedCombinations.some(c => c.duration === options.duration && c.quality === options.quality)) {
+      errors.push({
+        field: 'quality',
+        code: 'unsupported_combination',
+        params: { duration: options.duration, quality: options.quality }
+      });
     }
     
-    if (!['16:9', '4:3', '1:1', '3:4', '9:16'].includes(options.aspectRatio)) {
-      errors.push('aspectRatio必须是16:9, 4:3, 1:1, 3:4或9:16');
+    if (!capabilities.aspectRatios.includes(options.aspectRatio)) {
+      errors.push({ field: 'aspectRatio', code: 'invalid_option', params: { options: capabilities.aspectRatios.join(', ') } });
     }
     
     if (!options.callBackUrl) {
-      errors.push('callBackUrl是必需的');
+      errors.push({ field: 'callBackUrl', code: 'required' });
     } else {
       try {
         new URL(options.callBackUrl);
       } catch {
-        errors.push('callBackUrl不是有效的URL');
+        errors.push({ field: 'callBackUrl', code: 'invalid_url' });
       }
     }
     
     if (options.imageUrl) {
+      if (!capabilities.imageToVideo) {
+        errors.push({ field: 'imageUrl', code: 'unsupported_feature', params: { provider: provider.id } });
+      }
       try {
         new URL(options.imageUrl);
       } catch {
-        errors.push('imageUrl不是有效的URL');
+        errors.push({ field: 'imageUrl', code: 'invalid_url' });
       }
     }
     
     if (errors.length > 0) {
-      throw new Error(`参数验证失败: ${errors.join(', ')}`);
+      throw new KieValidationError(errors);
     }
   }
 
-  private async requestWithRetry<T>(requestFn: () => Promise<T>): Promise<T> {
-    let lastError: Error;
+  private async requestWithRetry<T>(
+    requestFn: () => Promise<T>,
+    options: { idempotent?: boolean } = {}
+  ): Promise<T> {
+    const idempotent = options.idempotent ?? true;
+    let lastError: KieError;
     
     for (let attempt = 1; attempt <= this.maxRetries; attempt++) {
       try {
         return await requestFn();
       } catch (error) {
-        lastError = this.handleError(error as AxiosError);
+        lastError = this.toKieError(error);
         
-        if (attempt === this.maxRetries) {
+        const canRetry = lastError.retryable && (idempotent || this.isSafeToResend(error));
+        if (!canRetry || attempt === this.maxRetries) {
+          if (lastError.retryable && !canRetry) {
+            console.warn('Request may already have been processed by the server; not retrying to avoid creating a duplicate task');
+          }
           break;
         }
         
-        const delay = Math.pow(2, attempt - 1) * 1000;
-        console.log(`请求失败，${delay}ms后重试 (${attempt}/${this.maxRetries})`);
+        const retryAfterMs = lastError instanceof KieApiError ? lastError.retryAfterMs : undefined;
+        const delay = this.getRetryDelay(attempt, retryAfterMs);
+        console.log(`Request failed, retrying in ${delay}ms (${attempt}/${this.maxRetries})`);
         await this.sleep(delay);
       }
     }
@@ -376,7 +569,65 @@ export class KieVeo3Client {
     throw lastError!;
   }
 
-  private handleError(error: AxiosError): Error {
+  private toKieError(error: unknown): KieError {
+    if (error instanceof KieError) {
+      return error;
+    }
+    if (axios.isAxiosError(error)) {
+      return this.handleError(error);
+    }
+    return new KieError('UNKNOWN', error instanceof Error ? error.message : 'Unknown error');
+  }
+
+  /**
+   * Whether a failed request provably never reached the provider, so even a
+   * non-idempotent call may be resent: 429s are rejected before processing.
+   */
+  private isSafeToResend(error: unknown): boolean {
+    if (!axios.isAxiosError(error)) {
+      return false;
+    }
+    if (error.response) {
+      return error.response.status === 429;
+    }
+    return UNSENT_NETWORK_CODES.includes(error.code || '');
+  }
+
+  /**
+   * Retry-After is either a number of seconds or an HTTP date
+   */
+  private parseRetryAfter(value: unknown): number | undefined {
+    if (typeof value !== 'string' || !value.trim()) {
+      return undefined;
+    }
+
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+
+  /**
+   * Exponential backoff with jitter, so clients that failed together don't retry together.
+   * A server-provided Retry-After takes precedence (capped at RETRY_AFTER_MAX_MS).
+   */
+  private getRetryDelay(attempt: number, retryAfterMs?: number): number {
+    if (retryAfterMs !== undefined) {
+      return Math.min(retryAfterMs, RETRY_AFTER_MAX_MS);
+    }
+
+    const ceiling = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * Math.pow(2, attempt - 1));
+    return Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+  }
+
+  /**
+   * Map an axios failure to a typed error. Transient failures (timeouts, connection
+   * resets, 408/425/429/5xx) are retryable; validation, auth and other 4xx are terminal.
+   */
+  private handleError(error: AxiosError): KieError {
     console.error('KIE API Error Details:', {
       code: error.code,
       message: error.message,
@@ -392,7 +643,9 @@ export class KieVeo3Client {
 
     if (error.response) {
       const { status, data } = error.response;
-      const message = (data as any)?.message || '未知错误';
+      const message = (data as any)?.message || (data as any)?.msg || 'Unknown error';
+      const retryAfterMs = this.parseRetryAfter(error.response.headers?.['retry-after']);
+      const details = { upstreamMessage: message };
       
       console.error('API Response Error:', {
         status,
@@ -402,19 +655,20 @@ export class KieVeo3Client {
       
       switch (status) {
         case 429:
-          return new Error('请求过于频繁，请稍后再试');
+          return new KieRateLimitError(retryAfterMs, details);
         case 401:
-          return new Error('API密钥无效，请检查配置');
-        case 400:
-          return new Error(`请求参数错误: ${message}`);
         case 403:
-          return new Error('API访问被拒绝，请检查权限');
+          return new KieAuthError(status, details);
+        case 400:
+          return new KieApiError('BAD_REQUEST', `KIE API rejected the request: ${message}`, { status, details });
         case 404:
-          return new Error('API端点不存在，请检查URL配置');
-        case 500:
-          return new Error('服务器内部错误，请稍后重试');
+          return new KieApiError('ENDPOINT_NOT_FOUND', `KIE API endpoint not found: ${error.config?.url}`, { status, details });
         default:
-          return new Error(`API错误 ${status}: ${message}`);
+          return new KieApiError(
+            status >= 500 ? 'SERVER_ERROR' : 'API_ERROR',
+            `KIE API error ${status}: ${message}`,
+            { status, retryable: RETRYABLE_STATUSES.includes(status), retryAfterMs, details }
+          );
       }
     } else if (error.request) {
       console.error('Network Request Error:', {
@@ -430,17 +684,18 @@ export class KieVeo3Client {
         port: (error as any).port
       });
       
+      const retryable = RETRYABLE_NETWORK_CODES.includes(error.code || '');
       if (error.code === 'ECONNREFUSED') {
-        return new Error('连接被拒绝，请检查API服务是否可用');
+        return new KieNetworkError('CONNECTION_REFUSED', error.code, retryable);
       } else if (error.code === 'ENOTFOUND') {
-        return new Error('域名解析失败，请检查网络连接和API URL');
-      } else if (error.code === 'ETIMEDOUT') {
-        return new Error('请求超时，请检查网络连接');
+        return new KieNetworkError('DNS_FAILURE', error.code, retryable);
+      } else if (error.code === 'ETIMEDOUT' || error.code === 'ECONNABORTED') {
+        return new KieNetworkError('TIMEOUT', error.code, retryable);
       } else {
-        return new Error(`网络请求失败: ${error.code || '未知网络错误'}`);
+        return new KieNetworkError('NETWORK_ERROR', error.code, retryable);
       }
     } else {
-      return new Error(`请求配置错误: ${error.message}`);
+      return new KieError('CONFIGURATION_ERROR', `Invalid KIE request configuration: ${error.message}`);
     }
   }
 
@@ -449,14 +704,18 @@ export class KieVeo3Client {
   }
 }
 
+// Shared by every client in this process so the limits apply across instances of the class
+const sharedRateLimiter = new KieRateLimiter();
+
 export const createKieVeo3Client = (): KieVeo3Client => {
   const apiKey = process.env.KIE_API_KEY;
   if (!apiKey) {
-    throw new Error('KIE_API_KEY环境变量未设置');
+    throw new KieError('CONFIGURATION_ERROR', 'KIE_API_KEY environment variable is not set');
   }
   
   return new KieVeo3Client(apiKey, {
     maxRetries: parseInt(process.env.KIE_MAX_RETRIES || '3'),
-    timeout: parseInt(process.env.KIE_TIMEOUT || '30000')
+    timeout: parseInt(process.env.KIE_TIMEOUT || '30000'),
+    rateLimiter: sharedRateLimiter
   });
 };
\ No newline at end of file
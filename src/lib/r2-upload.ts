@@ -1,9 +1,10 @@
-import { S3Client, PutObjectCommand } from '@aws-sdk/client-s3'
 import ffmpeg from 'fluent-ffmpeg'
 import ffmpegStatic from 'ffmpeg-static'
 import fs from 'fs'
 import path from 'path'
 import { promisify } from 'util'
+import { Readable, Transform, pipeline } from 'stream'
+import { getStorage } from './storage'
 
 // Set ffmpeg path with better error handling
 try {
@@ -21,15 +22,10 @@ try {
   ffmpeg.setFfmpegPath('ffmpeg');
 }
 
-// Initialize S3 client for R2
-const r2Client = new S3Client({
-  region: 'auto',
-  endpoint: `https://${process.env.R2_ACCOUNT_ID}.r2.cloudflarestorage.com`,
-  credentials: {
-    accessKeyId: process.env.R2_ACCESS_KEY_ID!,
-    secretAccessKey: process.env.R2_SECRET_ACCESS_KEY!,
-  },
-})
+// ffmpeg-static does not ship ffprobe, so use FFPROBE_PATH or the system binary
+if (process.env.FFPROBE_PATH) {
+  ffmpeg.setFfprobePath(process.env.FFPROBE_PATH)
+}
 
 // Helper to generate unique filename
 function generateUniqueFilename(originalName: string, prefix?: string): string {
@@ -55,6 +51,276 @@ export async function extractVideoThumbnail(videoPath: string, outputPath: strin
   })
 }
 
+export type WatermarkPosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' | 'center'
+
+export interface WatermarkOptions {
+  text?: string
+  // PNG with transparency works best
+  logoPath?: string
+  position: WatermarkPosition
+  // 0 (invisible) to 1 (opaque)
+  opacity: number
+  // Distance from the edges, in pixels
+  margin: number
+  // Logo width as a fraction of the video width
+  logoScale: number
+  // drawtext needs a font file when ffmpeg was built without fontconfig
+  fontPath?: string
+}
+
+// overlay uses main_w/overlay_w, drawtext uses w/tw for the same geometry
+function watermarkPosition(position: WatermarkPosition, margin: number, filter: 'overlay' | 'drawtext'): string {
+  const [W, H, w, h] = filter === 'overlay'
+    ? ['main_w', 'main_h', 'overlay_w', 'overlay_h']
+    : ['w', 'h', 'tw', 'th']
+  const positions: Record<WatermarkPosition, [string, string]> = {
+    'top-left': [`${margin}`, `${margin}`],
+    'top-right': [`${W}-${w}-${margin}`, `${margin}`],
+    'bottom-left': [`${margin}`, `${H}-${h}-${margin}`],
+    'bottom-right': [`${W}-${w}-${margin}`, `${H}-${h}-${margin}`],
+    center: [`(${W}-${w})/2`, `(${H}-${h})/2`],
+  }
+  const [x, y] = positions[position]
+  return filter === 'overlay' ? `${x}:${y}` : `x=${x}:y=${y}`
+}
+
+// Burn a logo and/or text into a video; audio is copied untouched
+export async function applyWatermark(
+  inputPath: string,
+  outputPath: string,
+  options: WatermarkOptions
+): Promise<void> {
+  const filters: string[] = []
+  let current = '0:v'
+
+  if (options.logoPath) {
+    filters.push(
+      `[1:v][${current}]scale2ref=w=main_w*${options.logoScale}:h=ow/a[logo][base]`,
+      `[logo]format=rgba,colorchannelmixer=aa=${options.opacity}[wm]`,
+      `[base][wm]overlay=${watermarkPosition(options.position, options.margin, 'overlay')}[logoed]`
+    )
+    current = 'logoed'
+  }
+
+  // The text goes through a file so no filtergraph escaping is needed
+  const textFile = options.text ? `${outputPath}.txt` : undefined
+  if (textFile) {
+    await fs.promises.writeFile(textFile, options.text!)
+    const font = options.fontPath ? `:fontfile=${options.fontPath}` : ''
+    filters.push(
+      `[${current}]drawtext=textfile=${textFile}:expansion=none${font}:fontsize=h/18:fontcolor=white@${options.opacity}` +
+      `:shadowcolor=black@${options.opacity / 2}:shadowx=2:shadowy=2:${watermarkPosition(options.position, options.margin, 'drawtext')}[texted]`
+    )
+    current = 'texted'
+  }
+
+  if (filters.length === 0) {
+    throw new Error('Watermark needs a text or a logo')
+  }
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const command = ffmpeg(inputPath)
+      if (options.logoPath) {
+        command.input(options.logoPath)
+      }
+      command
+        .complexFilter(filters)
+        .outputOptions([
+          '-map', `[${current}]`,
+          '-map', '0:a?',
+          '-c:v', 'libx264',
+          '-preset', 'veryfast',
+          '-crf', '20',
+          '-pix_fmt', 'yuv420p',
+          '-c:a', 'copy',
+          '-movflags', '+faststart',
+        ])
+        .on('end', () => resolve())
+        .on('error', (err) => reject(err))
+        .save(outputPath)
+    })
+  } finally {
+    if (textFile) {
+      await fs.promises.unlink(textFile).catch(() => {})
+    }
+  }
+}
+
+export interface HlsRendition {
+  name: string
+  // Target height (the short side for portrait videos)
+  height: number
+  videoBitrate: number // kbps
+  audioBitrate: number // kbps
+}
+
+export const DEFAULT_HLS_LADDER: HlsRendition[] = [
+  { name: '360p', height: 360, videoBitrate: 800, audioBitrate: 96 },
+  { name: '720p', height: 720, videoBitrate: 2800, audioBitrate: 128 },
+  { name: '1080p', height: 1080, videoBitrate: 5000, audioBitrate: 192 },
+]
+
+export interface HlsTranscodeOptions {
+  hasAudio: boolean
+  // Scale the width instead of the height so renditions keep their short side
+  portrait: boolean
+  segmentSeconds?: number
+}
+
+// Encode every rendition in one ffmpeg run and package them as HLS:
+// outputDir/master.m3u8 plus outputDir/<name>/index.m3u8 and its segments
+export async function transcodeToHls(
+  inputPath: string,
+  outputDir: string,
+  renditions: HlsRendition[],
+  options: HlsTranscodeOptions
+): Promise<void> {
+  const segmentSeconds = options.segmentSeconds || 4
+  for (const rendition of renditions) {
+    await fs.promises.mkdir(path.join(outputDir, rendition.name), { recursive: true })
+  }
+
+  const scale = (height: number) => (options.portrait ? `${height}:-2` : `-2:${height}`)
+  const filter = `[0:v]split=${renditions.length}${renditions.map((_, i) => `[v${i}]`).join('')};` +
+    renditions.map((rendition, i) => `[v${i}]scale=${scale(rendition.height)}[v${i}out]`).join(';')
+
+  const streamOptions = renditions.flatMap((rendition, i) => [
+    '-map', `[v${i}out]`,
+    `-c:v:${i}`, 'libx264',
+    `-b:v:${i}`, `${rendition.videoBitrate}k`,
+    `-maxrate:v:${i}`, `${Math.round(rendition.videoBitrate * 1.07)}k`,
+    `-bufsize:v:${i}`, `${Math.round(rendition.videoBitrate * 1.5)}k`,
+    ...(options.hasAudio
+      ? ['-map', '0:a:0', `-c:a:${i}`, 'aac', `-b:a:${i}`, `${rendition.audioBitrate}k`]
+      : []),
+  ])
+
+  const streamMap = renditions
+    .map((rendition, i) => (options.hasAudio ? `v:${i},a:${i},name:${rendition.name}` : `v:${i},name:${rendition.name}`))
+    .join(' ')
+
+  return new Promise((resolve, reject) => {
+    ffmpeg(inputPath)
+      .outputOptions([
+        '-filter_complex', filter,
+        ...streamOptions,
+        '-preset', 'veryfast',
+        '-pix_fmt', 'yuv420p',
+        // Keyframes on segment boundaries in every rendition, so players can switch cleanly
+        '-force_key_frames', `expr:gte(t,n_forced*${segmentSeconds})`,
+        '-sc_threshold', '0',
+        '-f', 'hls',
+        '-hls_time', String(segmentSeconds),
+        '-hls_playlist_type', 'vod',
+        '-hls_flags', 'independent_segments',
+        '-hls_segment_filename', path.join(outputDir, '%v', 'segment_%03d.ts'),
+        '-master_pl_name', 'master.m3u8',
+        '-var_stream_map', streamMap,
+      ])
+      .output(path.join(outputDir, '%v', 'index.m3u8'))
+      .on('end', () => resolve())
+      .on('error', (err) => reject(err))
+      .run()
+  })
+}
+
+export interface VideoProbeResult {
+  durationSeconds?: number
+  width?: number
+  height?: number
+  videoCodec?: string
+  audioCodec?: string
+  bitrate?: number // bits per second
+  frameRate?: number
+}
+
+// Parse ffprobe rates like "30000/1001"
+function parseFrameRate(rate?: string): number | undefined {
+  if (!rate) return undefined
+  const [num, den] = rate.split('/').map(Number)
+  if (!num || !den) return undefined
+  return Math.round((num / den) * 100) / 100
+}
+
+// Read technical metadata (duration, dimensions, codecs, bitrate) with ffprobe
+export async function probeVideo(videoPath: string): Promise<VideoProbeResult> {
+  return new Promise((resolve, reject) => {
+    ffmpeg.ffprobe(videoPath, (err, data) => {
+      if (err) return reject(err)
+
+      const video = data.streams.find(stream => stream.codec_type === 'video')
+      const audio = data.streams.find(stream => stream.codec_type === 'audio')
+      const duration = Number(data.format.duration ?? video?.duration)
+      const bitrate = Number(data.format.bit_rate ?? video?.bit_rate)
+
+      resolve({
+        durationSeconds: Number.isFinite(duration) ? duration : undefined,
+        width: video?.width,
+        height: video?.height,
+        videoCodec: video?.codec_name,
+        audioCodec: audio?.codec_name,
+        bitrate: Number.isFinite(bitrate) ? bitrate : undefined,
+        frameRate: parseFrameRate(video?.avg_frame_rate || video?.r_frame_rate),
+      })
+    })
+  })
+}
+
+export interface StreamUploadOptions {
+  // Reject (and abort the upload) once more than this many bytes arrive
+  maxBytes?: number
+  // Size announced by the source (e.g. Content-Length), if known
+  contentLength?: number
+  onProgress?: (uploadedBytes: number, totalBytes?: number) => void
+}
+
+// Stream a readable into the configured storage backend (see ./storage)
+export async function uploadStreamToR2(
+  body: Readable,
+  key: string,
+  contentType: string,
+  options: StreamUploadOptions = {}
+): Promise<{ url: string; size: number }> {
+  const { maxBytes, contentLength } = options
+
+  if (maxBytes && contentLength && contentLength > maxBytes) {
+    body.destroy()
+    throw new Error(`File too large: ${contentLength} bytes exceeds limit of ${maxBytes} bytes`)
+  }
+
+  let size = 0
+  const sizeGuard = new Transform({
+    transform(chunk, _encoding, callback) {
+      size += chunk.length
+      if (maxBytes && size > maxBytes) {
+        callback(new Error(`File too large: exceeded limit of ${maxBytes} bytes`))
+      } else {
+        callback(null, chunk)
+      }
+    },
+  })
+
+  // Errors on either side destroy both streams, which fails the upload below
+  pipeline(body, sizeGuard, () => {})
+
+  const storage = getStorage()
+
+  try {
+    const { url } = await storage.putObject(key, sizeGuard, {
+      contentType,
+      contentLength,
+      onProgress: options.onProgress,
+    })
+    return { url, size }
+  } catch (error) {
+    console.error(`Error streaming ${key} to ${storage.id} storage:`, error)
+    body.destroy()
+    sizeGuard.destroy()
+    throw error
+  }
+}
+
 // Upload file to R2
 export async function uploadToR2(
   filePath: string,
@@ -62,19 +328,13 @@ export async function uploadToR2(
   contentType: string
 ): Promise<string> {
   try {
-    const fileBuffer = await fs.promises.readFile(filePath)
-    
-    const command = new PutObjectCommand({
-      Bucket: process.env.R2_BUCKET_NAME!,
-      Key: key,
-      Body: fileBuffer,
-      ContentType: contentType,
+    const { size } = await fs.promises.stat(filePath)
+    const { url } = await uploadStreamToR2(fs.createReadStream(filePath), key, contentType, {
+      contentLength: size,
     })
-
-    await r2Client.send(command)
     
     // Return the public URL
-    return `${process.env.R2_ENDPOINT}/${key}`
+    return url
   } catch (error) {
     console.error('Error uploading to R2:', error)
     throw error
@@ -134,17 +394,10 @@ export async function uploadImageToR2(
   try {
     const imageFilename = generateUniqueFilename(filename, 'image')
     
-    const command = new PutObjectCommand({
-      Bucket: process.env.R2_BUCKET_NAME!,
-      Key: `images/${imageFilename}`,
-      Body: buffer,
-      ContentType: contentType,
-    })
-
-    await r2Client.send(command)
+    const { url } = await getStorage().putObject(`images/${imageFilename}`, buffer, { contentType })
     
     // Return the public URL
-    return `${process.env.R2_ENDPOINT}/images/${imageFilename}`
+    return url
   } catch (error) {
     console.error('Error uploading image to R2:', error)
     throw error
@@ -0,0 +1,170 @@
+import { createServiceClient } from './supabase/server';
+
+export type ReferralFraudReason =
+  | 'ip_matches_referrer'
+  | 'device_matches_referrer'
+  | 'shared_ip_cluster'
+  | 'shared_device_cluster'
+  | 'referrer_velocity_hourly'
+  | 'referrer_velocity_daily'
+  | 'missing_user_agent'
+  | 'fraud_check_failed';
+
+export interface ReferralFraudAssessment {
+  score: number;
+  flagged: boolean;
+  reasons: ReferralFraudReason[];
+}
+
+interface FraudThresholds {
+  flagScore: number;
+  sharedIpPerReferrer: number;
+  sharedDeviceGlobal: number;
+  maxReferralsPerHour: number;
+  maxReferralsPerDay: number;
+}
+
+const REASON_WEIGHTS: Record<ReferralFraudReason, number> = {
+  ip_matches_referrer: 60,
+  device_matches_referrer: 30,
+  shared_ip_cluster: 50,
+  shared_device_cluster: 50,
+  referrer_velocity_hourly: 50,
+  referrer_velocity_daily: 50,
+  missing_user_agent: 10,
+  fraud_check_failed: 0
+};
+
+// Exceeding a configured limit, or being unable to check one, flags the referral on its
+// own, whatever REFERRAL_FRAUD_FLAG_SCORE is
+const ALWAYS_FLAG_REASONS: ReferralFraudReason[] = [
+  'shared_ip_cluster',
+  'shared_device_cluster',
+  'referrer_velocity_hourly',
+  'referrer_velocity_daily',
+  'fraud_check_failed'
+];
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+function getFraudThresholds(): FraudThresholds {
+  return {
+    flagScore: parseInt(process.env.REFERRAL_FRAUD_FLAG_SCORE || '50'),
+    sharedIpPerReferrer: parseInt(process.env.REFERRAL_FRAUD_SHARED_IP_LIMIT || '3'),
+    sharedDeviceGlobal: parseInt(process.env.REFERRAL_FRAUD_SHARED_DEVICE_LIMIT || '5'),
+    maxReferralsPerHour: parseInt(process.env.REFERRAL_MAX_PER_HOUR || '5'),
+    maxReferralsPerDay: parseInt(process.env.REFERRAL_MAX_PER_DAY || '20')
+  };
+}
+
+function since(ms: number): string {
+  return new Date(Date.now() - ms).toISOString();
+}
+
+/**
+ * Score a referral before it is recorded. Compares the sign-up's IP / user agent with
+ * the referrer's own sessions and with other referrals, and applies per-referrer
+ * velocity limits. Referrals that exceed a limit, or score at or above
+ * REFERRAL_FRAUD_FLAG_SCORE, are flagged. A failed check flags the referral for
+ * review rather than letting it through as clean.
+ */
+export async function assessReferralFraud(params: {
+  referrerId: string;
+  ipAddress?: string;
+  userAgent?: string;
+}): Promise<ReferralFraudAssessment> {
+  const supabase = createServiceClient();
+  const thresholds = getFraudThresholds();
+  const reasons: ReferralFraudReason[] = [];
+  let checkFailed = false;
+
+  // Counts a check's matches; a query error marks the whole assessment as failed
+  const countOrFlag = (label: string, result: { count: number | null; error: unknown }): number => {
+    if (result.error) {
+      console.error(`Error checking ${label}:`, result.error);
+      checkFailed = true;
+    }
+    return result.count || 0;
+  };
+
+  if (!params.userAgent) {
+    reasons.push('missing_user_agent');
+  }
+
+  if (params.ipAddress) {
+    // The referrer signing up their own second account
+    const { data: referrerSessions, error: sessionsError } = await supabase
+      .from('user_sessions')
+      .select('user_agent')
+      .eq('user_id', params.referrerId)
+      .eq('ip_address', params.ipAddress)
+      .limit(20);
+
+    if (sessionsError) {
+      console.error('Error checking referrer sessions:', sessionsError);
+      checkFailed = true;
+    } else if (referrerSessions && referrerSessions.length > 0) {
+      reasons.push('ip_matches_referrer');
+      if (params.userAgent && referrerSessions.some(session => session.user_agent === params.userAgent)) {
+        reasons.push('device_matches_referrer');
+      }
+    }
+
+    const sameIpForReferrer = countOrFlag('shared referral IPs', await supabase
+      .from('user_referrals')
+      .select('id', { count: 'exact', head: true })
+      .eq('referrer_id', params.referrerId)
+      .eq('ip_address', params.ipAddress)
+      .gte('created_at', since(30 * DAY_MS)));
+
+    if (sameIpForReferrer >= thresholds.sharedIpPerReferrer) {
+      reasons.push('shared_ip_cluster');
+    }
+
+    if (params.userAgent) {
+      const sameDevice = countOrFlag('shared referral devices', await supabase
+        .from('user_referrals')
+        .select('id', { count: 'exact', head: true })
+        .eq('ip_address', params.ipAddress)
+        .eq('user_agent', params.userAgent)
+        .gte('created_at', since(7 * DAY_MS)));
+
+      if (sameDevice >= thresholds.sharedDeviceGlobal) {
+        reasons.push('shared_device_cluster');
+      }
+    }
+  }
+
+  const lastHour = countOrFlag('hourly referral velocity', await supabase
+    .from('user_referrals')
+    .select('id', { count: 'exact', head: true })
+    .eq('referrer_id', params.referrerId)
+    .gte('created_at', since(HOUR_MS)));
+
+  if (lastHour >= thresholds.maxReferralsPerHour) {
+    reasons.push('referrer_velocity_hourly');
+  }
+
+  const lastDay = countOrFlag('daily referral velocity', await supabase
+    .from('user_referrals')
+    .select('id', { count: 'exact', head: true })
+    .eq('referrer_id', params.referrerId)
+    .gte('created_at', since(DAY_MS)));
+
+  if (lastDay >= thresholds.maxReferralsPerDay) {
+    reasons.push('referrer_velocity_daily');
+  }
+
+  if (checkFailed) {
+    reasons.push('fraud_check_failed');
+  }
+
+  const score = reasons.reduce((total, reason) => total + REASON_WEIGHTS[reason], 0);
+
+  return {
+    score,
+    flagged: score >= thresholds.flagScore || reasons.some(reason => ALWAYS_FLAG_REASONS.includes(reason)),
+    reasons
+  };
+}
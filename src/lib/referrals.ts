@@ -0,0 +1,473 @@
+import crypto from 'crypto';
+import { createServiceClient } from './supabase/server';
+import { getDefaultLotExpiry } from './credits-manager';
+import { assessReferralFraud } from './referral-fraud';
+
+export type ReferralStatus = 'pending' | 'registered' | 'converted' | 'credited';
+export type ReferralRewardType = 'registration' | 'first_payment' | 'subscription';
+
+export interface ReferralTracking {
+  ipAddress?: string;
+  userAgent?: string;
+  utmSource?: string;
+  utmMedium?: string;
+  utmCampaign?: string;
+}
+
+interface ReferralRow {
+  id: string;
+  referrer_id: string;
+  referred_user_id: string | null;
+  status: ReferralStatus;
+  credits_awarded: number | null;
+}
+
+// Unambiguous characters only (no 0/O, 1/I/L)
+const REFERRAL_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const REFERRAL_CODE_LENGTH = 8;
+const MAX_CODE_ATTEMPTS = 5;
+
+function generateReferralCode(): string {
+  const bytes = crypto.randomBytes(REFERRAL_CODE_LENGTH);
+  let code = '';
+  for (let i = 0; i < REFERRAL_CODE_LENGTH; i++) {
+    code += REFERRAL_CODE_ALPHABET[bytes[i] % REFERRAL_CODE_ALPHABET.length];
+  }
+  return code;
+}
+
+function buildReferralLink(code: string): string {
+  const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000';
+  return `${siteUrl.replace(/\/$/, '')}/?ref=${code}`;
+}
+
+/**
+ * Get the user's referral code, creating one on first use
+ */
+export async function getOrCreateReferralCode(
+  userId: string
+): Promise<{ success: boolean; referralCode?: string; referralLink?: string; error?: string }> {
+  try {
+    const supabase = createServiceClient();
+
+    const { data: existing, error: fetchError } = await supabase
+      .from('referral_codes')
+      .select('referral_code, referral_link')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (fetchError) {
+      console.error('Error fetching referral code:', fetchError);
+      return { success: false, error: 'Failed to fetch referral code' };
+    }
+
+    if (existing) {
+      return { success: true, referralCode: existing.referral_code, referralLink: existing.referral_link };
+    }
+
+    for (let attempt = 1; attempt <= MAX_CODE_ATTEMPTS; attempt++) {
+      const referralCode = generateReferralCode();
+      const referralLink = buildReferralLink(referralCode);
+
+      const { error: insertError } = await supabase
+        .from('referral_codes')
+        .insert({ user_id: userId, referral_code: referralCode, referral_link: referralLink });
+
+      if (!insertError) {
+        console.log(`🔗 Created referral code ${referralCode} for user ${userId}`);
+        return { success: true, referralCode, referralLink };
+      }
+
+      if (insertError.code !== '23505') {
+        console.error('Error creating referral code:', insertError);
+        return { success: false, error: 'Failed to create referral code' };
+      }
+
+      // Either the code collided or a concurrent request created this user's code
+      const { data: created } = await supabase
+        .from('referral_codes')
+        .select('referral_code, referral_link')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (created) {
+        return { success: true, referralCode: created.referral_code, referralLink: created.referral_link };
+      }
+    }
+
+    return { success: false, error: 'Failed to generate a unique referral code' };
+
+  } catch (error) {
+    console.error('Error in getOrCreateReferralCode:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+async function getActiveReward(rewardType: ReferralRewardType): Promise<{ credits_reward: number; minimum_spending: number | null; reward_title: string | null } | null> {
+  const supabase = createServiceClient();
+  const { data, error } = await supabase
+    .from('referral_rewards')
+    .select('credits_reward, minimum_spending, reward_title')
+    .eq('reward_type', rewardType)
+    .eq('is_active', true)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`Error fetching ${rewardType} referral reward:`, error);
+    return null;
+  }
+
+  return data;
+}
+
+/**
+ * Credit the referrer for one reward type. `award_referral_reward` checks the referral
+ * is eligible, grants the credits, moves a first payment to `credited` and updates the
+ * counters in one transaction. The idempotency key makes each (referral, reward type)
+ * pair pay out at most once.
+ */
+async function awardReferralCredits(
+  referral: ReferralRow,
+  rewardType: ReferralRewardType,
+  credits: number,
+  title: string | null
+): Promise<{ success: boolean; replayed?: boolean; ineligible?: boolean; newCredits?: number; error?: string }> {
+  try {
+    const supabase = createServiceClient();
+    const lotExpiresAt = getDefaultLotExpiry('referral');
+
+    const { data, error } = await supabase
+      .rpc('award_referral_reward', {
+        p_referral_id: referral.id,
+        p_reward_type: rewardType,
+        p_credits: credits,
+        p_description: title,
+        p_lot_expires_at: lotExpiresAt ? lotExpiresAt.toISOString() : null
+      })
+      .single<{ new_balance: number; replayed: boolean; credited: boolean }>();
+
+    if (error || !data) {
+      // The referral's status changed since it was read (e.g. a concurrent payment credited it)
+      if (error?.message?.includes('REFERRAL_NOT_ELIGIBLE')) {
+        return { success: false, ineligible: true, error: 'Referral is not eligible for this reward' };
+      }
+      console.error('Error awarding referral reward:', error);
+      return { success: false, error: 'Failed to award referral reward' };
+    }
+
+    return { success: true, replayed: data.replayed, newCredits: data.new_balance };
+
+  } catch (error) {
+    console.error('Error in awardReferralCredits:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+/**
+ * Atomically add to the referrer's counters (referral_codes, user_free_credits_stats)
+ * and, for rewards, to the referral's credits_awarded
+ */
+async function incrementReferralCounters(
+  referrerId: string,
+  delta: { referralId?: string; credits?: number; sent?: number; successful?: number; pending?: number }
+): Promise<void> {
+  const supabase = createServiceClient();
+
+  const { error } = await supabase.rpc('increment_referral_counters', {
+    p_referrer_id: referrerId,
+    p_referral_id: delta.referralId ?? null,
+    p_credits: delta.credits || 0,
+    p_sent: delta.sent || 0,
+    p_successful: delta.successful || 0,
+    p_pending: delta.pending || 0
+  });
+
+  if (error) {
+    console.error('Error updating referral counters:', error);
+  }
+}
+
+/**
+ * Pay the `registration` reward for a referral, if one is active
+ */
+async function payRegistrationReward(referral: ReferralRow): Promise<void> {
+  const reward = await getActiveReward('registration');
+  if (!reward || reward.credits_reward <= 0) {
+    return;
+  }
+
+  const awardResult = await awardReferralCredits(referral, 'registration', reward.credits_reward, reward.reward_title);
+  if (!awardResult.success) {
+    console.warn(`Failed to award registration reward for referral ${referral.id}: ${awardResult.error}`);
+  }
+}
+
+/**
+ * Attribute a new sign-up to a referral code. Rejects self-referrals and users
+ * who were already referred, and pays the `registration` reward if one is active.
+ * Sign-ups that look fraudulent are held in `pending` for manual review instead.
+ */
+export async function attributeReferralSignup(params: {
+  referralCode: string;
+  referredUserId: string;
+  referredEmail?: string;
+  tracking?: ReferralTracking;
+}): Promise<{ success: boolean; referralId?: string; flagged?: boolean; error?: string }> {
+  try {
+    const supabase = createServiceClient();
+    const referralCode = params.referralCode.trim().toUpperCase();
+
+    const { data: code, error: codeError } = await supabase
+      .from('referral_codes')
+      .select('user_id, total_referrals, is_active')
+      .eq('referral_code', referralCode)
+      .maybeSingle();
+
+    if (codeError) {
+      console.error('Error fetching referral code:', codeError);
+      return { success: false, error: 'Failed to look up referral code' };
+    }
+
+    if (!code || !code.is_active) {
+      return { success: false, error: 'Invalid referral code' };
+    }
+
+    if (code.user_id === params.referredUserId) {
+      return { success: false, error: 'Self-referral is not allowed' };
+    }
+
+    if (params.referredEmail) {
+      const { data: referrer } = await supabase
+        .from('user_profiles')
+        .select('email')
+        .eq('id', code.user_id)
+        .single();
+
+      if (referrer?.email && referrer.email.toLowerCase() === params.referredEmail.toLowerCase()) {
+        return { success: false, error: 'Self-referral is not allowed' };
+      }
+    }
+
+    const { data: existing } = await supabase
+      .from('user_referrals')
+      .select('id')
+      .eq('referred_user_id', params.referredUserId)
+      .maybeSingle();
+
+    if (existing) {
+      return { success: false, error: 'User has already been referred' };
+    }
+
+    const assessment = await assessReferralFraud({
+      referrerId: code.user_id,
+      ipAddress: params.tracking?.ipAddress,
+      userAgent: params.tracking?.userAgent
+    });
+
+    const { data: referral, error: insertError } = await supabase
+      .from('user_referrals')
+      .insert({
+        referrer_id: code.user_id,
+        referred_user_id: params.referredUserId,
+        referral_code: referralCode,
+        referred_email: params.referredEmail || null,
+        status: assessment.flagged ? 'pending' : 'registered',
+        review_status: assessment.flagged ? 'flagged' : 'none',
+        fraud_score: assessment.score,
+        fraud_reasons: assessment.reasons,
+        ip_address: params.tracking?.ipAddress || null,
+        user_agent: params.tracking?.userAgent || null,
+        utm_source: params.tracking?.utmSource || null,
+        utm_medium: params.tracking?.utmMedium || null,
+        utm_campaign: params.tracking?.utmCampaign || null
+      })
+      .select('id, referrer_id, referred_user_id, status, credits_awarded')
+      .single<ReferralRow>();
+
+    if (insertError || !referral) {
+      if (insertError?.code === '23505') {
+        return { success: false, error: 'User has already been referred' };
+      }
+      console.error('Error recording referral:', insertError);
+      return { success: false, error: 'Failed to record referral' };
+    }
+
+    await incrementReferralCounters(code.user_id, { sent: 1, pending: 1 });
+
+    if (assessment.flagged) {
+      console.warn(`🚩 Referral ${referral.id} flagged for review (score ${assessment.score}): ${assessment.reasons.join(', ')}`);
+      return { success: true, referralId: referral.id, flagged: true };
+    }
+
+    await payRegistrationReward(referral);
+
+    console.log(`🤝 Referral ${referral.id}: ${code.user_id} referred ${params.referredUserId}`);
+
+    return { success: true, referralId: referral.id };
+
+  } catch (error) {
+    console.error('Error in attributeReferralSignup:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+/**
+ * Promote a referral when the referred user pays. `amount` is in the smallest
+ * currency unit, the same unit as `referral_rewards.minimum_spending`.
+ *
+ * A `first_payment` moves the referral `registered → credited` together with its
+ * reward; a `subscription` reward is paid on top, once per referral.
+ */
+export async function recordReferralPayment(params: {
+  referredUserId: string;
+  amount: number;
+  rewardType?: Exclude<ReferralRewardType, 'registration'>;
+}): Promise<{ success: boolean; referralId?: string; creditsAwarded?: number; skipped?: string; error?: string }> {
+  try {
+    const supabase = createServiceClient();
+    const rewardType = params.rewardType || 'first_payment';
+
+    const { data: referral, error: fetchError } = await supabase
+      .from('user_referrals')
+      .select('id, referrer_id, referred_user_id, status, credits_awarded')
+      .eq('referred_user_id', params.referredUserId)
+      .maybeSingle<ReferralRow>();
+
+    if (fetchError) {
+      console.error('Error fetching referral:', fetchError);
+      return { success: false, error: 'Failed to fetch referral' };
+    }
+
+    if (!referral) {
+      return { success: true, skipped: 'User was not referred' };
+    }
+
+    if (referral.status === 'pending') {
+      return { success: true, referralId: referral.id, skipped: 'Referral is pending review' };
+    }
+
+    if (rewardType === 'first_payment' && referral.status === 'credited') {
+      return { success: true, referralId: referral.id, skipped: 'Referral already credited' };
+    }
+
+    // Only the first payment moves a referral out of `registered`; later rewards
+    // (e.g. subscription renewals) apply once it has been credited
+    if (rewardType !== 'first_payment' && referral.status !== 'credited') {
+      return { success: true, referralId: referral.id, skipped: 'First payment not rewarded yet' };
+    }
+
+    const reward = await getActiveReward(rewardType);
+    if (!reward) {
+      return { success: true, referralId: referral.id, skipped: `No active ${rewardType} reward` };
+    }
+
+    if (params.amount < (reward.minimum_spending || 0)) {
+      return { success: true, referralId: referral.id, skipped: 'Payment below minimum spending' };
+    }
+
+    if (reward.credits_reward <= 0) {
+      return { success: true, referralId: referral.id, skipped: `No credits for ${rewardType} reward` };
+    }
+
+    const awardResult = await awardReferralCredits(referral, rewardType, reward.credits_reward, reward.reward_title);
+    if (awardResult.ineligible) {
+      // Another request credited it first; that request paid the reward
+      return { success: true, referralId: referral.id, skipped: 'Referral already being credited' };
+    }
+    if (!awardResult.success) {
+      return { success: false, referralId: referral.id, error: awardResult.error };
+    }
+
+    if (awardResult.replayed) {
+      return { success: true, referralId: referral.id, skipped: 'Reward already credited' };
+    }
+
+    console.log(`🎉 Referral ${referral.id} credited ${reward.credits_reward} credits (${rewardType})`);
+
+    return { success: true, referralId: referral.id, creditsAwarded: reward.credits_reward };
+
+  } catch (error) {
+    console.error('Error in recordReferralPayment:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+/**
+ * Release a flagged referral after manual review and pay its registration reward.
+ * Payments made while it was held are not rewarded retroactively.
+ */
+export async function approveFlaggedReferral(
+  referralId: string,
+  reviewerId: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const supabase = createServiceClient();
+    const now = new Date().toISOString();
+
+    const { data: referral, error } = await supabase
+      .from('user_referrals')
+      .update({ status: 'registered', review_status: 'approved', reviewed_by: reviewerId, reviewed_at: now, updated_at: now })
+      .eq('id', referralId)
+      .eq('review_status', 'flagged')
+      .select('id, referrer_id, referred_user_id, status, credits_awarded')
+      .maybeSingle<ReferralRow>();
+
+    if (error) {
+      console.error('Error approving referral:', error);
+      return { success: false, error: 'Failed to approve referral' };
+    }
+
+    if (!referral) {
+      return { success: false, error: 'Referral is not awaiting review' };
+    }
+
+    await payRegistrationReward(referral);
+
+    console.log(`✅ Referral ${referralId} approved by ${reviewerId}`);
+    return { success: true };
+
+  } catch (error) {
+    console.error('Error in approveFlaggedReferral:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+/**
+ * Reject a flagged referral; it stays `pending` and never earns rewards
+ */
+export async function rejectFlaggedReferral(
+  referralId: string,
+  reviewerId: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const supabase = createServiceClient();
+    const now = new Date().toISOString();
+
+    const { data: referral, error } = await supabase
+      .from('user_referrals')
+      .update({ review_status: 'rejected', reviewed_by: reviewerId, reviewed_at: now, updated_at: now })
+      .eq('id', referralId)
+      .eq('review_status', 'flagged')
+      .select('id, referrer_id')
+      .maybeSingle<Pick<ReferralRow, 'id' | 'referrer_id'>>();
+
+    if (error) {
+      console.error('Error rejecting referral:', error);
+      return { success: false, error: 'Failed to reject referral' };
+    }
+
+    if (!referral) {
+      return { success: false, error: 'Referral is not awaiting review' };
+    }
+
+    // A rejected referral will never convert, so it no longer counts as pending
+    await incrementReferralCounters(referral.referrer_id, { pending: -1 });
+
+    console.log(`⛔ Referral ${referralId} rejected by ${reviewerId}`);
+    return { success: true };
+
+  } catch (error) {
+    console.error('Error in rejectFlaggedReferral:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
@@ -0,0 +1,360 @@
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import { PassThrough, Readable } from 'stream';
+
+export type RemoteFileKind = 'video' | 'image';
+
+export interface SafeDownloadOptions {
+  maxBytes?: number;
+  allowedHosts?: string[];
+  maxRedirects?: number;
+  // How many times a dropped connection is resumed with a Range request
+  maxResumes?: number;
+  timeoutMs?: number;
+}
+
+export interface SafeDownload {
+  stream: Readable;
+  contentLength?: number;
+  contentType: string;
+  finalUrl: string;
+}
+
+// Hosts KIE serves results from; override with DOWNLOAD_ALLOWED_HOSTS (comma separated, `*.` wildcards)
+const DEFAULT_ALLOWED_HOSTS = ['*.kie.ai', '*.aiquickdraw.com'];
+
+const CONTENT_TYPES: Record<RemoteFileKind, string[]> = {
+  video: ['video/mp4', 'application/octet-stream', 'binary/octet-stream'],
+  image: ['image/jpeg', 'image/png', 'image/webp', 'application/octet-stream', 'binary/octet-stream']
+};
+
+const MAGIC_BYTES_LENGTH = 12;
+
+// Private, loopback, link-local, CGNAT, multicast and reserved ranges
+const blockedAddresses = new net.BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15],
+  ['198.51.100.0', 24], ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4]
+].forEach(([address, prefix]) => blockedAddresses.addSubnet(address as string, prefix as number, 'ipv4'));
+[
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['100::', 64], ['2001:db8::', 32],
+  ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+].forEach(([address, prefix]) => blockedAddresses.addSubnet(address as string, prefix as number, 'ipv6'));
+
+export function isBlockedAddress(address: string): boolean {
+  // IPv4-mapped IPv6 (::ffff:10.0.0.1) is checked against the IPv4 rules
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) {
+    return blockedAddresses.check(mapped[1], 'ipv4');
+  }
+  const family = net.isIP(address);
+  if (family === 0) {
+    return true;
+  }
+  return blockedAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+function getAllowedHosts(options: SafeDownloadOptions): string[] {
+  if (options.allowedHosts) {
+    return options.allowedHosts;
+  }
+  const configured = process.env.DOWNLOAD_ALLOWED_HOSTS;
+  return configured
+    ? configured.split(',').map(host => host.trim().toLowerCase()).filter(Boolean)
+    : DEFAULT_ALLOWED_HOSTS;
+}
+
+function isHostAllowed(hostname: string, allowedHosts: string[]): boolean {
+  const host = hostname.toLowerCase();
+  return allowedHosts.some(pattern =>
+    pattern.startsWith('*.')
+      ? host.endsWith(pattern.slice(1)) || host === pattern.slice(2)
+      : host === pattern
+  );
+}
+
+/**
+ * Reject URLs that are not https, not on the allowlist, or that point at an internal address
+ */
+function validateUrl(url: string, allowedHosts: string[]): URL {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error(`Invalid download URL: ${url}`);
+  }
+
+  if (parsed.protocol !== 'https:' && !(parsed.protocol === 'http:' && process.env.DOWNLOAD_ALLOW_HTTP === 'true')) {
+    throw new Error(`Blocked download URL protocol: ${parsed.protocol}`);
+  }
+  if (parsed.username || parsed.password) {
+    throw new Error('Blocked download URL with credentials');
+  }
+
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(hostname) && isBlockedAddress(hostname)) {
+    throw new Error(`Blocked download address: ${hostname}`);
+  }
+  if (!isHostAllowed(hostname, allowedHosts)) {
+    throw new Error(`Download host not allowed: ${hostname}`);
+  }
+
+  return parsed;
+}
+
+/**
+ * DNS lookup that refuses internal addresses. Used as the socket's lookup, so the
+ * address that was checked is the one connected to (no DNS rebinding window).
+ */
+const safeLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      return (callback as any)(error);
+    }
+
+    const blocked = addresses.find(entry => isBlockedAddress(entry.address));
+    if (blocked || addresses.length === 0) {
+      return (callback as any)(new Error(`Blocked download address for ${hostname}: ${blocked?.address || 'none'}`));
+    }
+
+    if ((options as dns.LookupOptions).all) {
+      return (callback as any)(null, addresses);
+    }
+    (callback as any)(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+/**
+ * Validate a URL and every address its host resolves to, for tools (ffmpeg/ffprobe)
+ * that fetch the URL themselves
+ */
+export async function assertSafeDownloadUrl(url: string, options: SafeDownloadOptions = {}): Promise<void> {
+  const parsed = validateUrl(url, getAllowedHosts(options));
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(hostname)) {
+    return;
+  }
+
+  const addresses = await dns.promises.lookup(hostname, { all: true });
+  const blocked = addresses.find(entry => isBlockedAddress(entry.address));
+  if (blocked) {
+    throw new Error(`Blocked download address for ${hostname}: ${blocked.address}`);
+  }
+}
+
+/**
+ * GET a URL, following redirects and re-validating every hop
+ */
+function requestWithRedirects(
+  url: string,
+  headers: Record<string, string>,
+  options: SafeDownloadOptions
+): Promise<{ response: http.IncomingMessage; finalUrl: string }> {
+  const allowedHosts = getAllowedHosts(options);
+  const maxRedirects = options.maxRedirects ?? 5;
+
+  const attempt = (currentUrl: string, redirects: number): Promise<{ response: http.IncomingMessage; finalUrl: string }> =>
+    new Promise((resolve, reject) => {
+      let parsed: URL;
+      try {
+        parsed = validateUrl(currentUrl, allowedHosts);
+      } catch (error) {
+        return reject(error);
+      }
+
+      const client = parsed.protocol === 'https:' ? https : http;
+      const request = client.get(parsed, { headers, lookup: safeLookup }, (response) => {
+        const status = response.statusCode || 0;
+
+        if (status >= 300 && status < 400 && response.headers.location) {
+          response.resume();
+          if (redirects >= maxRedirects) {
+            return reject(new Error(`Too many redirects downloading ${url}`));
+          }
+          const nextUrl = new URL(response.headers.location, parsed).toString();
+          return attempt(nextUrl, redirects + 1).then(resolve, reject);
+        }
+
+        resolve({ response, finalUrl: parsed.toString() });
+      });
+
+      request.on('error', reject);
+      request.setTimeout(options.timeoutMs ?? 300000, () => {
+        request.destroy(new Error('Download timeout'));
+      });
+    });
+
+  return attempt(url, 0);
+}
+
+export function matchesMagicBytes(kind: RemoteFileKind, header: Buffer): boolean {
+  if (kind === 'video') {
+    // ISO base media file: `ftyp` box at offset 4
+    return header.length >= 8 && header.toString('latin1', 4, 8) === 'ftyp';
+  }
+
+  const isJpeg = header[0] === 0xff && header[1] === 0xd8 && header[2] === 0xff;
+  const isPng = header.toString('latin1', 0, 8) === '\x89PNG\r\n\x1a\n';
+  const isWebp = header.toString('latin1', 0, 4) === 'RIFF' && header.toString('latin1', 8, 12) === 'WEBP';
+  return isJpeg || isPng || isWebp;
+}
+
+/**
+ * Open a provider download as a stream: allowlisted hosts only, internal addresses
+ * blocked, redirects re-validated, content type / size / magic bytes enforced.
+ * Dropped connections are resumed with Range requests (or by skipping already
+ * received bytes when the server ignores Range).
+ */
+export async function openSafeDownload(
+  url: string,
+  kind: RemoteFileKind,
+  options: SafeDownloadOptions = {}
+): Promise<SafeDownload> {
+  const maxResumes = options.maxResumes ?? 3;
+  const { response, finalUrl } = await requestWithRedirects(url, {}, options);
+
+  if (response.statusCode !== 200) {
+    response.resume();
+    throw new Error(`HTTP ${response.statusCode}: ${response.statusMessage}`);
+  }
+
+  const contentType = (response.headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+  if (!CONTENT_TYPES[kind].includes(contentType)) {
+    response.resume();
+    throw new Error(`Unexpected content type for ${kind}: ${contentType || 'none'}`);
+  }
+
+  const contentLength = parseInt(response.headers['content-length'] || '', 10);
+  const expectedBytes = Number.isFinite(contentLength) ? contentLength : undefined;
+  if (options.maxBytes && expectedBytes && expectedBytes > options.maxBytes) {
+    response.resume();
+    throw new Error(`File too large: ${expectedBytes} bytes exceeds limit of ${options.maxBytes} bytes`);
+  }
+
+  const etag = response.headers.etag;
+  const output = new PassThrough();
+  let received = 0;
+  let resumes = 0;
+  let header = Buffer.alloc(0);
+  let verified = false;
+  let current = response;
+
+  const fail = (error: Error) => output.destroy(error);
+
+  const resume = async (reason: Error) => {
+    if (resumes >= maxResumes || !expectedBytes) {
+      return fail(reason);
+    }
+    resumes++;
+    console.warn(`🔁 Resuming ${kind} download at byte ${received} (${resumes}/${maxResumes}): ${reason.message}`);
+
+    try {
+      await new Promise(resolve => setTimeout(resolve, 1000 * resumes));
+      const next = await requestWithRedirects(finalUrl, {
+        Range: `bytes=${received}-`,
+        ...(etag && { 'If-Range': etag })
+      }, options);
+
+      if (next.response.statusCode === 206) {
+        const start = Number(/bytes (\d+)-/.exec(next.response.headers['content-range'] || '')?.[1]);
+        if (start !== received) {
+          next.response.resume();
+          return fail(new Error(`Resume returned unexpected range: ${next.response.headers['content-range']}`));
+        }
+        pump(next.response, 0);
+      } else if (next.response.statusCode === 200) {
+        if (etag && next.response.headers.etag !== etag) {
+          next.response.resume();
+          return fail(new Error('Remote file changed during download'));
+        }
+        // Server ignored the Range header: skip what we already have
+        pump(next.response, received);
+      } else {
+        next.response.resume();
+        fail(new Error(`Resume failed with HTTP ${next.response.statusCode}`));
+      }
+    } catch (error) {
+      fail(error as Error);
+    }
+  };
+
+  const pump = (source: http.IncomingMessage, skipBytes: number) => {
+    let toSkip = skipBytes;
+    let finished = false;
+    current = source;
+
+    source.on('data', (chunk: Buffer) => {
+      if (toSkip > 0) {
+        if (chunk.length <= toSkip) {
+          toSkip -= chunk.length;
+          return;
+        }
+        chunk = chunk.subarray(toSkip);
+        toSkip = 0;
+      }
+
+      received += chunk.length;
+      if (options.maxBytes && received > options.maxBytes) {
+        finished = true;
+        source.destroy();
+        return fail(new Error(`File too large: exceeded limit of ${options.maxBytes} bytes`));
+      }
+
+      if (!verified) {
+        header = Buffer.concat([header, chunk]);
+        if (header.length >= MAGIC_BYTES_LENGTH) {
+          if (!matchesMagicBytes(kind, header)) {
+            finished = true;
+            source.destroy();
+            return fail(new Error(`Downloaded data is not a valid ${kind} file`));
+          }
+          verified = true;
+        }
+      }
+
+      if (!output.write(chunk)) {
+        source.pause();
+        output.once('drain', () => source.resume());
+      }
+    });
+
+    const onInterrupted = (error: Error) => {
+      if (finished || output.destroyed) {
+        return;
+      }
+      finished = true;
+      resume(error);
+    };
+
+    source.on('aborted', () => onInterrupted(new Error('Connection aborted')));
+    source.on('error', onInterrupted);
+    source.on('end', () => {
+      if (finished) {
+        return;
+      }
+      if (expectedBytes && received < expectedBytes) {
+        finished = true;
+        return resume(new Error(`Download ended early (${received}/${expectedBytes} bytes)`));
+      }
+      finished = true;
+      if (!verified && !matchesMagicBytes(kind, header)) {
+        return fail(new Error(`Downloaded data is not a valid ${kind} file`));
+      }
+      output.end();
+    });
+  };
+
+  // Stop pulling from the network if the consumer gives up
+  output.on('close', () => {
+    if (!output.writableFinished) {
+      current.destroy();
+    }
+  });
+
+  pump(response, 0);
+
+  return { stream: output, contentLength: expectedBytes, contentType, finalUrl };
+}
@@ -0,0 +1,13 @@
+/**
+ * `attachment` header for a download filename (RFC 6266), or undefined for inline.
+ * The quoted fallback is ASCII-only; filename* carries the real UTF-8 name.
+ */
+export function contentDisposition(filename?: string): string | undefined {
+  if (!filename) {
+    return undefined;
+  }
+
+  const fallback = filename.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '_');
+  const encoded = encodeURIComponent(filename).replace(/['()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
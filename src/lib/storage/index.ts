@@ -0,0 +1,58 @@
+import path from 'path';
+import { StorageBackend, StorageBackendId } from './types';
+import { S3StorageBackend } from './s3';
+import { LocalStorageBackend } from './local';
+
+export * from './types';
+export { S3StorageBackend } from './s3';
+export { LocalStorageBackend } from './local';
+
+function createStorageBackend(id: StorageBackendId): StorageBackend {
+  switch (id) {
+    case 'r2':
+      return new S3StorageBackend('r2', {
+        endpoint: `https://${process.env.R2_ACCOUNT_ID}.r2.cloudflarestorage.com`,
+        region: 'auto',
+        accessKeyId: process.env.R2_ACCESS_KEY_ID || '',
+        secretAccessKey: process.env.R2_SECRET_ACCESS_KEY || '',
+        bucket: process.env.R2_BUCKET_NAME || '',
+        publicUrl: process.env.R2_ENDPOINT || ''
+      });
+    case 's3':
+      return new S3StorageBackend('s3', {
+        endpoint: process.env.S3_ENDPOINT || undefined,
+        region: process.env.S3_REGION || 'us-east-1',
+        accessKeyId: process.env.S3_ACCESS_KEY_ID || '',
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || '',
+        bucket: process.env.S3_BUCKET || '',
+        publicUrl: process.env.S3_PUBLIC_URL || `${process.env.S3_ENDPOINT}/${process.env.S3_BUCKET}`,
+        forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true'
+      });
+    case 'local':
+      return new LocalStorageBackend({
+        rootDir: process.env.STORAGE_LOCAL_DIR || path.join(process.cwd(), 'storage'),
+        publicUrl: process.env.STORAGE_PUBLIC_URL || '/api/storage',
+        signingSecret: process.env.STORAGE_SIGNING_SECRET || 'local-development-secret'
+      });
+    default:
+      throw new Error(`Unknown storage backend: ${id}`);
+  }
+}
+
+let storage: StorageBackend | null = null;
+
+/**
+ * The configured backend (STORAGE_BACKEND: r2 | s3 | local, default r2).
+ * Created on first use so importing this module never needs credentials.
+ */
+export function getStorage(): StorageBackend {
+  if (!storage) {
+    storage = createStorageBackend((process.env.STORAGE_BACKEND || 'r2') as StorageBackendId);
+  }
+  return storage;
+}
+
+// Swap the backend, e.g. for a temporary directory in tests; null restores the configured one
+export function setStorage(backend: StorageBackend | null): void {
+  storage = backend;
+}
@@ -0,0 +1,117 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { PutObjectOptions, SignedUrlOptions, StorageBackend } from './types';
+import { contentDisposition } from './content-disposition';
+
+export interface LocalStorageConfig {
+  // Directory objects are written to
+  rootDir: string;
+  // URL prefix of the route that serves the directory
+  publicUrl: string;
+  // HMAC key for signed URLs
+  signingSecret: string;
+}
+
+/**
+ * Stores objects on the local filesystem, for development and CI. The directory
+ * is not served directly: the route behind `publicUrl` must check signed URLs
+ * with verifySignedUrl() and then stream the file from resolvePath().
+ */
+export class LocalStorageBackend implements StorageBackend {
+  readonly id = 'local' as const;
+  private config: LocalStorageConfig;
+
+  constructor(config: LocalStorageConfig) {
+    this.config = config;
+  }
+
+  getPublicUrl(key: string): string {
+    return `${this.config.publicUrl.replace(/\/+$/, '')}/${key}`;
+  }
+
+  resolvePath(key: string): string {
+    const root = path.resolve(this.config.rootDir);
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async putObject(key: string, body: Readable | Buffer, options: PutObjectOptions): Promise<{ url: string; size: number }> {
+    const filePath = this.resolvePath(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+
+    // Write next to the target and rename, so readers never see a partial file
+    const tempPath = `${filePath}.${crypto.randomBytes(6).toString('hex')}.part`;
+    let size = 0;
+    const counter = new Transform({
+      transform(chunk, _encoding, callback) {
+        size += chunk.length;
+        options.onProgress?.(size, options.contentLength);
+        callback(null, chunk);
+      }
+    });
+
+    try {
+      const source = Buffer.isBuffer(body) ? Readable.from([body]) : body;
+      await pipeline(source, counter, fs.createWriteStream(tempPath));
+      await fs.promises.rename(tempPath, filePath);
+    } catch (error) {
+      await fs.promises.unlink(tempPath).catch(() => {});
+      throw error;
+    }
+
+    return { url: this.getPublicUrl(key), size };
+  }
+
+  private sign(key: string, expires: number, disposition?: string): string {
+    return crypto
+      .createHmac('sha256', this.config.signingSecret)
+      .update(`${key}\n${expires}\n${disposition || ''}`)
+      .digest('hex');
+  }
+
+  async getSignedUrl(key: string, options: SignedUrlOptions): Promise<string> {
+    const expires = Math.floor(Date.now() / 1000) + options.expiresInSeconds;
+    const disposition = contentDisposition(options.downloadFilename);
+    const params = new URLSearchParams({ expires: String(expires), signature: this.sign(key, expires, disposition) });
+    if (disposition) {
+      params.set('disposition', disposition);
+    }
+    return `${this.getPublicUrl(key)}?${params.toString()}`;
+  }
+
+  /**
+   * Check the query of a URL from getSignedUrl(). Valid URLs also return the
+   * Content-Disposition to serve the file with.
+   */
+  verifySignedUrl(key: string, query: URLSearchParams): { valid: boolean; disposition?: string } {
+    const expires = Number(query.get('expires'));
+    const signature = query.get('signature') || '';
+    const disposition = query.get('disposition') || undefined;
+
+    if (!Number.isFinite(expires) || expires < Date.now() / 1000) {
+      return { valid: false };
+    }
+
+    const expected = Buffer.from(this.sign(key, expires, disposition));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      return { valid: false };
+    }
+
+    return { valid: true, disposition };
+  }
+
+  async getObject(key: string): Promise<Buffer> {
+    return fs.promises.readFile(this.resolvePath(key));
+  }
+
+  async deleteObject(key: string): Promise<void> {
+    await fs.promises.rm(this.resolvePath(key), { force: true });
+  }
+}
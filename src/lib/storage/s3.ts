@@ -0,0 +1,104 @@
+import { S3Client, DeleteObjectCommand, GetObjectCommand } from '@aws-sdk/client-s3';
+import { Upload } from '@aws-sdk/lib-storage';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { Readable } from 'stream';
+import { PutObjectOptions, SignedUrlOptions, StorageBackend, StorageBackendId } from './types';
+import { contentDisposition } from './content-disposition';
+
+export interface S3StorageConfig {
+  endpoint?: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  bucket: string;
+  // Base URL objects are publicly served from (CDN or bucket domain)
+  publicUrl: string;
+  // Needed by MinIO and most other self-hosted S3 stand-ins
+  forcePathStyle?: boolean;
+}
+
+// Multipart settings: memory use stays around PART_SIZE * QUEUE_SIZE regardless of file size
+const UPLOAD_PART_SIZE = 8 * 1024 * 1024;
+const UPLOAD_QUEUE_SIZE = 2;
+
+/**
+ * Any S3-compatible bucket: Cloudflare R2, AWS S3 or MinIO
+ */
+export class S3StorageBackend implements StorageBackend {
+  readonly id: StorageBackendId;
+  private config: S3StorageConfig;
+  private client: S3Client;
+
+  constructor(id: StorageBackendId, config: S3StorageConfig) {
+    if (!config.bucket || !config.accessKeyId || !config.secretAccessKey) {
+      throw new Error(`Storage backend "${id}" is missing its bucket or credentials`);
+    }
+
+    this.id = id;
+    this.config = config;
+    this.client = new S3Client({
+      region: config.region,
+      endpoint: config.endpoint,
+      forcePathStyle: config.forcePathStyle,
+      credentials: {
+        accessKeyId: config.accessKeyId,
+        secretAccessKey: config.secretAccessKey
+      }
+    });
+  }
+
+  getPublicUrl(key: string): string {
+    return `${this.config.publicUrl.replace(/\/+$/, '')}/${key}`;
+  }
+
+  async putObject(key: string, body: Readable | Buffer, options: PutObjectOptions): Promise<{ url: string; size: number }> {
+    const upload = new Upload({
+      client: this.client,
+      params: {
+        Bucket: this.config.bucket,
+        Key: key,
+        Body: body,
+        ContentType: options.contentType
+      },
+      partSize: UPLOAD_PART_SIZE,
+      queueSize: UPLOAD_QUEUE_SIZE,
+      leavePartsOnError: false
+    });
+
+    let size = Buffer.isBuffer(body) ? body.length : 0;
+    upload.on('httpUploadProgress', progress => {
+      size = Math.max(size, progress.loaded ?? 0);
+      options.onProgress?.(progress.loaded ?? 0, progress.total ?? options.contentLength);
+    });
+
+    try {
+      await upload.done();
+    } catch (error) {
+      await upload.abort().catch(() => {});
+      throw error;
+    }
+
+    return { url: this.getPublicUrl(key), size };
+  }
+
+  async getSignedUrl(key: string, options: SignedUrlOptions): Promise<string> {
+    const command = new GetObjectCommand({
+      Bucket: this.config.bucket,
+      Key: key,
+      ResponseContentDisposition: contentDisposition(options.downloadFilename)
+    });
+    return getSignedUrl(this.client, command, { expiresIn: options.expiresInSeconds });
+  }
+
+  async getObject(key: string): Promise<Buffer> {
+    const response = await this.client.send(new GetObjectCommand({ Bucket: this.config.bucket, Key: key }));
+    if (!response.Body) {
+      throw new Error(`Empty response for storage object ${key}`);
+    }
+    return Buffer.from(await response.Body.transformToByteArray());
+  }
+
+  async deleteObject(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.config.bucket, Key: key }));
+  }
+}
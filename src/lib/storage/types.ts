@@ -0,0 +1,32 @@
+import { Readable } from 'stream';
+
+export type StorageBackendId = 'r2' | 's3' | 'local';
+
+export interface PutObjectOptions {
+  contentType: string;
+  // Size announced by the source, if known; only used for progress reporting
+  contentLength?: number;
+  onProgress?: (uploadedBytes: number, totalBytes?: number) => void;
+}
+
+export interface SignedUrlOptions {
+  expiresInSeconds: number;
+  // Served as `Content-Disposition: attachment` under this name; inline when omitted
+  downloadFilename?: string;
+}
+
+/**
+ * Where generated media is stored. Keys are slash-separated paths such as
+ * `videos/<taskId>.mp4`; callers never see bucket names or directories.
+ */
+export interface StorageBackend {
+  id: StorageBackendId;
+  // Write the object, replacing any existing one. On failure nothing is left behind.
+  putObject(key: string, body: Readable | Buffer, options: PutObjectOptions): Promise<{ url: string; size: number }>;
+  getObject(key: string): Promise<Buffer>;
+  deleteObject(key: string): Promise<void>;
+  // Canonical object URL; only reachable if the bucket is public
+  getPublicUrl(key: string): string;
+  // Time-limited GET URL for a private object
+  getSignedUrl(key: string, options: SignedUrlOptions): Promise<string>;
+}
@@ -0,0 +1,42 @@
+import { createServiceClient } from './supabase/server';
+
+export interface UserPlan {
+  planType: string;
+  // pricing_plans.feature_limits for the plan ({} when the plan has no row)
+  featureLimits: Record<string, any>;
+}
+
+/**
+ * Resolve a user's plan from their active subscription, falling back to the
+ * plan on their profile
+ */
+export async function getUserPlan(userId: string): Promise<UserPlan> {
+  const supabase = createServiceClient();
+
+  const { data: subscription } = await supabase
+    .from('subscriptions')
+    .select('plan_type')
+    .eq('user_id', userId)
+    .in('status', ['active', 'trialing'])
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  let planType: string = subscription?.plan_type;
+  if (!planType) {
+    const { data: profile } = await supabase
+      .from('user_profiles')
+      .select('plan_type')
+      .eq('id', userId)
+      .maybeSingle();
+    planType = profile?.plan_type || 'free';
+  }
+
+  const { data: plan } = await supabase
+    .from('pricing_plans')
+    .select('feature_limits')
+    .eq('plan_type', planType)
+    .maybeSingle();
+
+  return { planType, featureLimits: plan?.feature_limits || {} };
+}
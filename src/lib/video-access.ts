@@ -0,0 +1,213 @@
+import { createServiceClient } from './supabase/server';
+import { getStorage } from './storage';
+import { getUserPlan } from './user-plan';
+
+export type VideoAccessPurpose = 'preview' | 'download';
+
+export interface VideoAccessPolicy {
+  planType: string;
+  // Longest lifetime of a URL for in-app playback
+  previewTtlSeconds: number;
+  // Longest lifetime of a full-quality download URL; null when the plan has no downloads
+  downloadTtlSeconds: number | null;
+}
+
+// Defaults per plan; pricing_plans.feature_limits.preview_url_ttl_seconds /
+// download_url_ttl_seconds / allow_downloads override them
+const DEFAULT_ACCESS_POLICIES: Record<string, Omit<VideoAccessPolicy, 'planType'>> = {
+  free: { previewTtlSeconds: 15 * 60, downloadTtlSeconds: null },
+  trial: { previewTtlSeconds: 15 * 60, downloadTtlSeconds: 5 * 60 },
+  basic: { previewTtlSeconds: 60 * 60, downloadTtlSeconds: 15 * 60 },
+  pro: { previewTtlSeconds: 6 * 60 * 60, downloadTtlSeconds: 60 * 60 },
+  enterprise: { previewTtlSeconds: 24 * 60 * 60, downloadTtlSeconds: 24 * 60 * 60 }
+};
+
+export async function getVideoAccessPolicy(userId: string): Promise<VideoAccessPolicy> {
+  const { planType, featureLimits: limits } = await getUserPlan(userId);
+  const defaults = DEFAULT_ACCESS_POLICIES[planType] || DEFAULT_ACCESS_POLICIES.free;
+
+  const downloadTtlSeconds = typeof limits.download_url_ttl_seconds === 'number'
+    ? limits.download_url_ttl_seconds
+    : defaults.downloadTtlSeconds;
+
+  return {
+    planType,
+    previewTtlSeconds: typeof limits.preview_url_ttl_seconds === 'number' ? limits.preview_url_ttl_seconds : defaults.previewTtlSeconds,
+    downloadTtlSeconds: limits.allow_downloads === false ? null : downloadTtlSeconds
+  };
+}
+
+/**
+ * Download name from the video title, without characters browsers or file systems reject
+ */
+export function buildDownloadFilename(title: string | null | undefined, videoId: string): string {
+  const base = (title || '')
+    .replace(/[\x00-\x1f\x7f/\\:*?"<>|]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .replace(/[.\s]+$/, '')
+    .trim()
+    .slice(0, 100);
+  return `${base || `video-${videoId.slice(0, 8)}`}.mp4`;
+}
+
+/**
+ * Signed preview URLs for a generation task's stored result, for status responses.
+ * Tasks without an owner get the free plan's TTL.
+ */
+export async function createTaskResultUrls(params: {
+  userId: string | null;
+  videoKey: string;
+  thumbnailKey?: string | null;
+}): Promise<{ videoUrl: string; thumbnailUrl?: string; expiresAt: string }> {
+  const ttl = params.userId
+    ? (await getVideoAccessPolicy(params.userId)).previewTtlSeconds
+    : DEFAULT_ACCESS_POLICIES.free.previewTtlSeconds;
+
+  const storage = getStorage();
+  const [videoUrl, thumbnailUrl] = await Promise.all([
+    storage.getSignedUrl(params.videoKey, { expiresInSeconds: ttl }),
+    params.thumbnailKey ? storage.getSignedUrl(params.thumbnailKey, { expiresInSeconds: ttl }) : Promise.resolve(undefined)
+  ]);
+
+  return { videoUrl, thumbnailUrl, expiresAt: new Date(Date.now() + ttl * 1000).toISOString() };
+}
+
+/**
+ * Build an HLS playlist for one of the user's videos, for a route to serve as
+ * application/vnd.apple.mpegurl. Segments live in private storage, so stored
+ * playlists cannot be handed out as-is: the master playlist points at
+ * `renditionPlaylistUrl(name)` (the same route, for that rendition), and rendition
+ * playlists list signed segment URLs that expire with the plan's preview TTL.
+ */
+export async function createSignedHlsPlaylist(params: {
+  videoId: string;
+  userId: string;
+  // Omit for the master playlist
+  rendition?: string;
+  renditionPlaylistUrl: (rendition: string) => string;
+}): Promise<{ success: boolean; playlist?: string; error?: string }> {
+  try {
+    const supabase = createServiceClient();
+
+    const { data: video, error } = await supabase
+      .from('videos')
+      .select('id, user_id, hls_master_key, renditions')
+      .eq('id', params.videoId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching video for HLS playlist:', error);
+      return { success: false, error: 'Failed to fetch video' };
+    }
+
+    if (!video || video.user_id !== params.userId) {
+      return { success: false, error: 'Video not found' };
+    }
+
+    if (!video.hls_master_key) {
+      return { success: false, error: 'Video has no streaming renditions' };
+    }
+
+    const storage = getStorage();
+    const renditions: { name: string; playlistKey: string }[] = video.renditions || [];
+
+    if (!params.rendition) {
+      const master = (await storage.getObject(video.hls_master_key)).toString('utf8');
+      // Variant lines look like "720p/index.m3u8"
+      const playlist = master
+        .split('\n')
+        .map(line => (line && !line.startsWith('#') ? params.renditionPlaylistUrl(line.split('/')[0]) : line))
+        .join('\n');
+      return { success: true, playlist };
+    }
+
+    const rendition = renditions.find(candidate => candidate.name === params.rendition);
+    if (!rendition) {
+      return { success: false, error: `Unknown rendition: ${params.rendition}` };
+    }
+
+    const policy = await getVideoAccessPolicy(params.userId);
+    const baseKey = rendition.playlistKey.slice(0, rendition.playlistKey.lastIndexOf('/'));
+    const lines = (await storage.getObject(rendition.playlistKey)).toString('utf8').split('\n');
+    const signed = await Promise.all(
+      lines.map(line =>
+        line && !line.startsWith('#')
+          ? storage.getSignedUrl(`${baseKey}/${line.trim()}`, { expiresInSeconds: policy.previewTtlSeconds })
+          : Promise.resolve(line)
+      )
+    );
+
+    return { success: true, playlist: signed.join('\n') };
+
+  } catch (error) {
+    console.error('Error in createSignedHlsPlaylist:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+/**
+ * Mint short-lived URLs for one of the user's videos. Objects are private, so
+ * these are the only way to reach them; call this per request instead of storing
+ * the result. `expiresInSeconds` may shorten, but never extend, the plan's TTL.
+ */
+export async function createVideoAccessUrl(params: {
+  videoId: string;
+  userId: string;
+  purpose: VideoAccessPurpose;
+  expiresInSeconds?: number;
+}): Promise<{ success: boolean; url?: string; thumbnailUrl?: string; expiresAt?: string; error?: string }> {
+  try {
+    const supabase = createServiceClient();
+
+    const { data: video, error } = await supabase
+      .from('videos')
+      .select('id, user_id, title, video_key, thumbnail_key, preview_url, download_url, thumbnail_url')
+      .eq('id', params.videoId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching video for access URL:', error);
+      return { success: false, error: 'Failed to fetch video' };
+    }
+
+    if (!video || video.user_id !== params.userId) {
+      return { success: false, error: 'Video not found' };
+    }
+
+    const policy = await getVideoAccessPolicy(params.userId);
+    const maxTtl = params.purpose === 'download' ? policy.downloadTtlSeconds : policy.previewTtlSeconds;
+
+    if (maxTtl === null) {
+      return { success: false, error: `Downloads are not available on the ${policy.planType} plan` };
+    }
+
+    const ttl = Math.max(1, Math.min(params.expiresInSeconds ?? maxTtl, maxTtl));
+    const expiresAt = new Date(Date.now() + ttl * 1000).toISOString();
+
+    // Videos saved before private storage only have their permanent URLs
+    if (!video.video_key) {
+      return {
+        success: true,
+        url: params.purpose === 'download' ? video.download_url : video.preview_url,
+        thumbnailUrl: video.thumbnail_url || undefined
+      };
+    }
+
+    const storage = getStorage();
+    const [url, thumbnailUrl] = await Promise.all([
+      storage.getSignedUrl(video.video_key, {
+        expiresInSeconds: ttl,
+        downloadFilename: params.purpose === 'download' ? buildDownloadFilename(video.title, video.id) : undefined
+      }),
+      video.thumbnail_key
+        ? storage.getSignedUrl(video.thumbnail_key, { expiresInSeconds: Math.min(ttl, policy.previewTtlSeconds) })
+        : Promise.resolve(undefined)
+    ]);
+
+    return { success: true, url, thumbnailUrl, expiresAt };
+
+  } catch (error) {
+    console.error('Error in createVideoAccessUrl:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
@@ -0,0 +1,101 @@
+import { createServiceClient } from './supabase/server';
+import { getVideoProvider, VideoProviderId } from './video-providers';
+
+export interface VideoPricingInput {
+  provider?: VideoProviderId;
+  model?: string;
+  duration: number;
+  quality: string;
+  imageToVideo: boolean;
+}
+
+interface VideoPricingRule {
+  id: string;
+  provider: string;
+  model: string | null;
+  duration: number | null;
+  quality: string | null;
+  imageToVideo: boolean | null;
+  credits: number;
+  updatedAt: string;
+}
+
+// Rules change rarely; cache them briefly instead of querying on every quote
+const RULES_CACHE_TTL_MS = 60 * 1000;
+let rulesCache: { rules: VideoPricingRule[]; loadedAt: number } | null = null;
+
+async function loadPricingRules(): Promise<VideoPricingRule[]> {
+  if (rulesCache && Date.now() - rulesCache.loadedAt < RULES_CACHE_TTL_MS) {
+    return rulesCache.rules;
+  }
+
+  const supabase = createServiceClient();
+  const { data, error } = await supabase
+    .from('video_pricing_rules')
+    .select('id, provider, model, duration, quality, image_to_video, credits, updated_at')
+    .eq('is_active', true);
+
+  if (error) {
+    throw new Error(`Failed to load pricing rules: ${error.message}`);
+  }
+
+  const rules = (data || []).map(row => ({
+    id: row.id,
+    provider: row.provider,
+    model: row.model,
+    duration: row.duration,
+    quality: row.quality,
+    imageToVideo: row.image_to_video,
+    credits: row.credits,
+    updatedAt: row.updated_at
+  }));
+
+  rulesCache = { rules, loadedAt: Date.now() };
+  return rules;
+}
+
+export function clearPricingCache(): void {
+  rulesCache = null;
+}
+
+/**
+ * Credit cost of a generation. The most specific active rule in video_pricing_rules
+ * wins: NULL columns match anything, and each non-NULL match counts towards specificity.
+ */
+export async function calculateVideoCreditCost(
+  input: VideoPricingInput
+): Promise<{ success: boolean; credits?: number; ruleId?: string; error?: string }> {
+  try {
+    const provider = getVideoProvider(input.provider);
+    const model = input.model || provider.capabilities.defaultModel;
+    const rules = await loadPricingRules();
+
+    const candidates = rules
+      .filter(rule =>
+        rule.provider === provider.id &&
+        (rule.model === null || rule.model === model) &&
+        (rule.duration === null || rule.duration === input.duration) &&
+        (rule.quality === null || rule.quality === input.quality) &&
+        (rule.imageToVideo === null || rule.imageToVideo === input.imageToVideo)
+      )
+      .map(rule => ({
+        rule,
+        specificity: [rule.model, rule.duration, rule.quality, rule.imageToVideo].filter(value => value !== null).length
+      }))
+      .sort((a, b) =>
+        b.specificity - a.specificity ||
+        new Date(b.rule.updatedAt).getTime() - new Date(a.rule.updatedAt).getTime()
+      );
+
+    if (candidates.length === 0) {
+      return { success: false, error: `No pricing rule for ${provider.id}/${model}` };
+    }
+
+    const { rule } = candidates[0];
+    return { success: true, credits: rule.credits, ruleId: rule.id };
+
+  } catch (error) {
+    console.error('Error in calculateVideoCreditCost:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
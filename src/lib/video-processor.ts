@@ -1,18 +1,51 @@
-import https from 'https';
-import http from 'http';
 import fs from 'fs';
 import path from 'path';
-import { processAndUploadVideo, uploadToR2 } from './r2-upload';
+import { PassThrough, Readable } from 'stream';
+import { finished, pipeline } from 'stream/promises';
+import {
+  uploadToR2,
+  uploadStreamToR2,
+  extractVideoThumbnail,
+  probeVideo,
+  applyWatermark,
+  transcodeToHls,
+  DEFAULT_HLS_LADDER,
+  HlsRendition,
+  VideoProbeResult,
+  WatermarkOptions
+} from './r2-upload';
 import { createClient } from './supabase/server';
-import { recordVideoCompletion } from './credits-manager';
+import { getStorage } from './storage';
+import { openSafeDownload, RemoteFileKind } from './safe-download';
+import { recordVideoCompletion, captureCreditHold, releaseCreditHold } from './credits-manager';
+import { getWatermarkConfig, shouldWatermarkForUser } from './video-watermark';
 
 export interface VideoProcessingResult {
   videoUrl: string;
   thumbnailUrl: string;
+  // Storage keys; objects are private and served through signed URLs (see video-access)
+  videoKey: string;
+  thumbnailKey: string;
   videoFileSize: number;
+  // The clean original; differs from videoKey only when the delivered video is watermarked
+  masterKey: string;
+  masterFileSize: number;
+  watermarked: boolean;
+  // Adaptive streaming of the delivered video; missing if packaging was skipped or failed
+  hlsMasterKey?: string;
+  renditions: VideoRendition[];
   thumbnailFileSize: number;
-  localVideoPath: string;
-  localThumbnailPath: string;
+  // Technical metadata of the downloaded file; missing if ffprobe failed
+  probe?: VideoProbeResult;
+}
+
+export interface VideoRendition {
+  name: string;
+  width: number;
+  height: number;
+  // Approximate peak bits per second (video maxrate + audio)
+  bandwidth: number;
+  playlistKey: string;
 }
 
 export interface VideoMetadata {
@@ -20,166 +53,439 @@ export interface VideoMetadata {
   userId?: string;
   originalPrompt?: string;
   triggers?: string[];
-  duration?: string;
+  category?: string;
+  // Requested length in seconds (VideoGenerationOptions.duration)
+  duration?: number;
   quality?: string;
   aspectRatio?: string;
+  // Recorded as-is on the video; callers pass the task's provider and model
+  provider: string;
+  model: string;
+  // Credits charged for the generation, as priced at submission
+  creditCost?: number;
+}
+
+// Limits for files pulled from the provider (override with MAX_VIDEO_BYTES / MAX_THUMBNAIL_BYTES)
+const MAX_VIDEO_BYTES = parseInt(process.env.MAX_VIDEO_BYTES || String(500 * 1024 * 1024), 10);
+const MAX_THUMBNAIL_BYTES = parseInt(process.env.MAX_THUMBNAIL_BYTES || String(10 * 1024 * 1024), 10);
+const DOWNLOAD_TIMEOUT_MS = 300000; // 5 minutes
+
+function getTempDir(): string {
+  // Use /tmp in production environments or process.cwd()/temp in development
+  return process.env.NODE_ENV === 'production' ? '/tmp' : path.join(process.cwd(), 'temp');
+}
+
+/**
+ * Download a provider file to a local temporary file through the SSRF-safe fetcher
+ */
+export async function downloadVideo(
+  url: string,
+  fileName: string,
+  kind: RemoteFileKind = 'video'
+): Promise<{ filePath: string; fileSize: number }> {
+  const tempDir = getTempDir();
+  await fs.promises.mkdir(tempDir, { recursive: true });
+  const filePath = path.join(tempDir, fileName);
+  
+  console.log(`📥 Downloading ${kind} from: ${url}`);
+  console.log(`📁 Saving to: ${filePath}`);
+  
+  const { stream } = await openSafeDownload(url, kind, {
+    maxBytes: kind === 'video' ? MAX_VIDEO_BYTES : MAX_THUMBNAIL_BYTES,
+    timeoutMs: DOWNLOAD_TIMEOUT_MS
+  });
+  
+  let fileSize = 0;
+  stream.on('data', (chunk: Buffer) => {
+    fileSize += chunk.length;
+  });
+  
+  try {
+    await pipeline(stream, fs.createWriteStream(filePath));
+  } catch (error) {
+    await fs.promises.unlink(filePath).catch(() => {});
+    throw error;
+  }
+  
+  console.log(`✅ Download completed: ${fileSize} bytes`);
+  return { filePath, fileSize };
+}
+
+export interface TransferProgress {
+  file: 'video' | 'thumbnail';
+  uploadedBytes: number;
+  totalBytes?: number;
+}
+
+// Forward upload progress and log it every 25%
+function trackProgress(
+  file: TransferProgress['file'],
+  onProgress?: (progress: TransferProgress) => void
+): (uploadedBytes: number, totalBytes?: number) => void {
+  let lastLoggedPercent = 0;
+  return (uploadedBytes, totalBytes) => {
+    onProgress?.({ file, uploadedBytes, totalBytes });
+    if (totalBytes) {
+      const percent = Math.floor((uploadedBytes / totalBytes) * 100);
+      if (percent >= lastLoggedPercent + 25) {
+        lastLoggedPercent = percent;
+        console.log(`📊 ${file} upload progress: ${percent}% (${uploadedBytes}/${totalBytes} bytes)`);
+      }
+    }
+  };
+}
+
+/**
+ * Stream a remote file straight into storage (no temp file, bounded memory)
+ */
+async function transferToStorage(
+  url: string,
+  key: string,
+  contentType: string,
+  file: TransferProgress['file'],
+  maxBytes: number,
+  onProgress?: (progress: TransferProgress) => void
+): Promise<{ url: string; size: number }> {
+  console.log(`📥 Streaming ${file} from: ${url}`);
+  const { stream, contentLength } = await openSafeDownload(url, file === 'video' ? 'video' : 'image', {
+    maxBytes,
+    timeoutMs: DOWNLOAD_TIMEOUT_MS
+  });
+  
+  return uploadStreamToR2(stream, key, contentType, {
+    maxBytes,
+    contentLength,
+    onProgress: trackProgress(file, onProgress)
+  });
+}
+
+/**
+ * Split a verified download: one branch for the storage upload, one written to
+ * a local file for the ffmpeg stages. A source error fails both branches.
+ */
+function teeToFile(source: Readable, filePath: string): { stream: Readable; written: Promise<void> } {
+  const upload = new PassThrough();
+  const file = fs.createWriteStream(filePath);
+  source.on('error', error => {
+    upload.destroy(error);
+    file.destroy(error);
+  });
+  source.pipe(upload);
+  source.pipe(file);
+  return { stream: upload, written: finished(file) };
+}
+
+/**
+ * ffprobe the local copy, or the stored object through a short-lived signed URL
+ * when the video was streamed without one (our own storage, never the provider URL)
+ */
+async function probeProcessedVideo(localPath: string | undefined, key: string): Promise<VideoProbeResult> {
+  if (localPath) {
+    return probeVideo(localPath);
+  }
+  const url = await getStorage().getSignedUrl(key, { expiresInSeconds: 300 });
+  if (!/^https?:\/\//.test(url)) {
+    throw new Error(`Cannot probe ${key}: ${getStorage().id} storage has no absolute signed URL`);
+  }
+  return probeVideo(url);
 }
 
 /**
- * Download video from URL to local temporary file
+ * Extract a thumbnail from the downloaded video and upload it
  */
-export async function downloadVideo(url: string, fileName: string): Promise<{ filePath: string; fileSize: number }> {
-  return new Promise((resolve, reject) => {
-    // Create temp directory if it doesn't exist
-    // Use /tmp in production environments or process.cwd()/temp in development
-    const tempDir = process.env.NODE_ENV === 'production' 
-      ? '/tmp'
-      : path.join(process.cwd(), 'temp');
+async function extractAndUploadThumbnail(videoPath: string, key: string): Promise<{ url: string; size: number }> {
+  const tempDir = getTempDir();
+  await fs.promises.mkdir(tempDir, { recursive: true });
+  const thumbnailPath = path.join(tempDir, path.basename(key));
+  
+  try {
+    await extractVideoThumbnail(videoPath, thumbnailPath);
+    const { size } = await fs.promises.stat(thumbnailPath);
+    const url = await uploadToR2(thumbnailPath, key, 'image/jpeg');
+    return { url, size };
+  } finally {
+    cleanupTempFiles([thumbnailPath]);
+  }
+}
+
+/**
+ * Render a watermarked copy of the downloaded video and upload it. The rendered
+ * file stays on disk for HLS packaging; the caller removes it.
+ */
+async function renderAndUploadWatermarked(
+  videoPath: string,
+  key: string,
+  watermark: WatermarkOptions
+): Promise<{ url: string; size: number; filePath: string }> {
+  const tempDir = getTempDir();
+  await fs.promises.mkdir(tempDir, { recursive: true });
+  const filePath = path.join(tempDir, path.basename(key));
+  
+  try {
+    console.log(`💧 Rendering watermark (${watermark.position}, opacity ${watermark.opacity})...`);
+    await applyWatermark(videoPath, filePath, watermark);
+    const { size } = await fs.promises.stat(filePath);
+    const url = await uploadToR2(filePath, key, 'video/mp4');
+    return { url, size, filePath };
+  } catch (error) {
+    cleanupTempFiles([filePath]);
+    throw error;
+  }
+}
+
+const HLS_CONTENT_TYPES: Record<string, string> = {
+  '.m3u8': 'application/vnd.apple.mpegurl',
+  '.ts': 'video/mp2t'
+};
+
+/**
+ * Renditions to package, from HLS_RENDITIONS (e.g. "360p,720p"; default: the
+ * whole ladder). Set HLS_ENABLED=false to skip packaging.
+ */
+function getHlsLadder(): HlsRendition[] {
+  const names = process.env.HLS_RENDITIONS?.split(',').map(name => name.trim()).filter(Boolean);
+  const ladder = names ? DEFAULT_HLS_LADDER.filter(rendition => names.includes(rendition.name)) : DEFAULT_HLS_LADDER;
+  return ladder.length > 0 ? ladder : DEFAULT_HLS_LADDER;
+}
+
+/**
+ * Transcode the source into an HLS ladder and upload the playlists and segments
+ * under `keyPrefix`. Renditions above the source resolution are skipped.
+ */
+async function packageHls(
+  source: string,
+  keyPrefix: string,
+  probe: VideoProbeResult
+): Promise<{ masterKey: string; renditions: VideoRendition[] }> {
+  if (!probe.width || !probe.height) {
+    throw new Error('Source dimensions unknown');
+  }
+  
+  const sourceWidth = probe.width;
+  const sourceHeight = probe.height;
+  const portrait = sourceHeight > sourceWidth;
+  const shortSide = Math.min(sourceWidth, sourceHeight);
+  const ladder = getHlsLadder();
+  const renditions = ladder.filter(rendition => rendition.height <= shortSide);
+  if (renditions.length === 0) {
+    renditions.push(ladder[0]);
+  }
+  
+  const outputDir = path.join(getTempDir(), `hls-${path.basename(keyPrefix)}`);
+  
+  try {
+    console.log(`🎞️ Packaging HLS: ${renditions.map(rendition => rendition.name).join(', ')}`);
+    await transcodeToHls(source, outputDir, renditions, { hasAudio: !!probe.audioCodec, portrait });
     
-    if (!fs.existsSync(tempDir)) {
-      fs.mkdirSync(tempDir, { recursive: true });
+    const files = ['master.m3u8'];
+    for (const rendition of renditions) {
+      const entries = await fs.promises.readdir(path.join(outputDir, rendition.name));
+      files.push(...entries.map(entry => `${rendition.name}/${entry}`));
     }
     
-    const filePath = path.join(tempDir, fileName);
-    const file = fs.createWriteStream(filePath);
+    for (const file of files) {
+      const contentType = HLS_CONTENT_TYPES[path.extname(file)] || 'application/octet-stream';
+      await uploadToR2(path.join(outputDir, file), `${keyPrefix}/${file}`, contentType);
+    }
     
-    // Choose http or https based on URL
-    const client = url.startsWith('https') ? https : http;
+    console.log(`✅ Uploaded ${files.length} HLS files to ${keyPrefix}/`);
     
-    console.log(`📥 Downloading video from: ${url}`);
-    console.log(`📁 Saving to: ${filePath}`);
+    // scale=-2 keeps the aspect ratio and rounds the other side to an even number
+    const otherSide = (side: number) => Math.round((side * Math.max(sourceWidth, sourceHeight)) / shortSide / 2) * 2;
     
-    const request = client.get(url, (response) => {
-      // Check if response is successful
-      if (response.statusCode !== 200) {
-        reject(new Error(`HTTP ${response.statusCode}: ${response.statusMessage}`));
-        return;
+    return {
+      masterKey: `${keyPrefix}/master.m3u8`,
+      renditions: renditions.map(rendition => ({
+        name: rendition.name,
+        width: portrait ? rendition.height : otherSide(rendition.height),
+        height: portrait ? otherSide(rendition.height) : rendition.height,
+        bandwidth: Math.round((rendition.videoBitrate * 1.07 + (probe.audioCodec ? rendition.audioBitrate : 0)) * 1000),
+        playlistKey: `${keyPrefix}/${rendition.name}/index.m3u8`
+      }))
+    };
+  } finally {
+    await fs.promises.rm(outputDir, { recursive: true, force: true }).catch(() => {});
+  }
+}
+
+/**
+ * Package HLS from a video already in storage, e.g. the clean master once the
+ * watermark is lifted
+ */
+export async function packageHlsFromStorage(
+  sourceKey: string,
+  keyPrefix: string
+): Promise<{ masterKey: string; renditions: VideoRendition[] }> {
+  const tempDir = getTempDir();
+  await fs.promises.mkdir(tempDir, { recursive: true });
+  const filePath = path.join(tempDir, path.basename(sourceKey));
+  
+  try {
+    await fs.promises.writeFile(filePath, await getStorage().getObject(sourceKey));
+    return await packageHls(filePath, keyPrefix, await probeVideo(filePath));
+  } finally {
+    cleanupTempFiles([filePath]);
+  }
+}
+
+/**
+ * Delete an HLS package: the segments listed in each rendition playlist, the
+ * playlists and the master playlist
+ */
+export async function deleteHlsPackage(
+  masterKey: string,
+  renditions: Pick<VideoRendition, 'playlistKey'>[]
+): Promise<void> {
+  const storage = getStorage();
+  
+  for (const rendition of renditions) {
+    const baseKey = rendition.playlistKey.slice(0, rendition.playlistKey.lastIndexOf('/'));
+    const lines = (await storage.getObject(rendition.playlistKey)).toString('utf8').split('\n');
+    for (const line of lines) {
+      if (line.trim() && !line.startsWith('#')) {
+        await storage.deleteObject(`${baseKey}/${line.trim()}`);
       }
-      
-      let downloadedBytes = 0;
-      const totalBytes = parseInt(response.headers['content-length'] || '0', 10);
-      
-      response.pipe(file);
-      
-      response.on('data', (chunk) => {
-        downloadedBytes += chunk.length;
-        if (totalBytes > 0) {
-          const progress = Math.round((downloadedBytes / totalBytes) * 100);
-          console.log(`📊 Download progress: ${progress}% (${downloadedBytes}/${totalBytes} bytes)`);
-        }
-      });
-      
-      file.on('finish', () => {
-        file.close();
-        console.log(`✅ Download completed: ${downloadedBytes} bytes`);
-        resolve({
-          filePath,
-          fileSize: downloadedBytes
-        });
-      });
-      
-      file.on('error', (err) => {
-        fs.unlink(filePath, () => {}); // Delete the file async
-        reject(err);
-      });
-    });
-    
-    request.on('error', (err) => {
-      fs.unlink(filePath, () => {}); // Delete the file async
-      reject(err);
-    });
-    
-    // Set timeout for download
-    request.setTimeout(300000, () => { // 5 minutes timeout
-      request.destroy();
-      reject(new Error('Download timeout'));
-    });
-  });
+    }
+    await storage.deleteObject(rendition.playlistKey);
+  }
+  await storage.deleteObject(masterKey);
 }
 
 /**
- * Process video and thumbnail from KIE API: download both files, upload to R2
+ * Process video and thumbnail from KIE API: stream the verified download straight into
+ * storage. A local copy is written alongside only when an ffmpeg stage (watermark, HLS,
+ * thumbnail extraction) needs one, and those stages run on it, never on the provider URL.
+ * Providers that send no thumbnail (VEO3) get one extracted from the video.
  */
 export async function processKieVideoAndThumbnail(
   kieVideoUrl: string,
-  kieThumbnailUrl: string,
-  metadata: VideoMetadata
+  kieThumbnailUrl: string | undefined,
+  metadata: VideoMetadata,
+  options: {
+    onProgress?: (progress: TransferProgress) => void;
+    // When set, the clean master is kept under masters/ and a watermarked copy is delivered
+    watermark?: WatermarkOptions;
+  } = {}
 ): Promise<VideoProcessingResult> {
-  let localVideoPath: string | null = null;
-  let localThumbnailPath: string | null = null;
-  
   try {
     console.log(`🎬 Processing KIE video and thumbnail for task: ${metadata.taskId}`);
     console.log(`   - Video URL: ${kieVideoUrl}`);
     console.log(`   - Thumbnail URL: ${kieThumbnailUrl}`);
     
-    // Generate unique filenames
     const timestamp = Date.now();
-    const videoFileName = `kie-video-${metadata.taskId}-${timestamp}.mp4`;
-    const thumbnailFileName = `kie-thumbnail-${metadata.taskId}-${timestamp}.jpg`;
-    
-    // Download both video and thumbnail in parallel
-    console.log(`📥 Downloading video and thumbnail...`);
-    const [videoDownload, thumbnailDownload] = await Promise.all([
-      downloadVideo(kieVideoUrl, videoFileName),
-      downloadVideo(kieThumbnailUrl, thumbnailFileName)
-    ]);
-    
-    localVideoPath = videoDownload.filePath;
-    localThumbnailPath = thumbnailDownload.filePath;
-    
-    console.log(`📁 Files downloaded:`);
-    console.log(`   - Video: ${localVideoPath} (${videoDownload.fileSize} bytes)`);
-    console.log(`   - Thumbnail: ${localThumbnailPath} (${thumbnailDownload.fileSize} bytes)`);
-    
-    // Upload both to R2
-    console.log(`☁️ Uploading to Cloudflare R2...`);
-    const [videoUrl, thumbnailUrl] = await Promise.all([
-      uploadToR2(localVideoPath, `videos/video-${timestamp}-${metadata.taskId.slice(0, 8)}.mp4`, 'video/mp4'),
-      uploadToR2(localThumbnailPath, `thumbnails/thumb-${timestamp}-${metadata.taskId.slice(0, 8)}.jpg`, 'image/jpeg')
-    ]);
-    
-    console.log(`✅ Upload complete:`);
-    console.log(`   - Video URL: ${videoUrl}`);
-    console.log(`   - Thumbnail URL: ${thumbnailUrl}`);
-    
-    return {
-      videoUrl,
-      thumbnailUrl,
-      videoFileSize: videoDownload.fileSize,
-      thumbnailFileSize: thumbnailDownload.fileSize,
-      localVideoPath,
-      localThumbnailPath
-    };
+    const videoName = `video-${timestamp}-${metadata.taskId.slice(0, 8)}`;
+    const masterKey = options.watermark ? `masters/${videoName}.mp4` : `videos/${videoName}.mp4`;
+    const thumbnailKey = `thumbnails/thumb-${timestamp}-${metadata.taskId.slice(0, 8)}.jpg`;
+    const hlsEnabled = process.env.HLS_ENABLED !== 'false';
     
-  } catch (error) {
-    console.error(`❌ Error processing video for task ${metadata.taskId}:`, error);
-    
-    // Cleanup on error
-    if (localVideoPath && fs.existsSync(localVideoPath)) {
-      try {
-        fs.unlinkSync(localVideoPath);
-        console.log(`🧹 Cleaned up video file: ${localVideoPath}`);
-      } catch (cleanupError) {
-        console.warn(`⚠️ Failed to cleanup video file: ${cleanupError}`);
-      }
+    let localPath: string | undefined;
+    if (options.watermark || hlsEnabled || !kieThumbnailUrl) {
+      await fs.promises.mkdir(getTempDir(), { recursive: true });
+      localPath = path.join(getTempDir(), `${videoName}.mp4`);
     }
+    let source: Readable | undefined;
+    let watermarked: { url: string; size: number; filePath: string } | undefined;
+    let hls: { masterKey: string; renditions: VideoRendition[] } | undefined;
     
-    if (localThumbnailPath && fs.existsSync(localThumbnailPath)) {
+    try {
+      // Open the video once through the SSRF-safe fetcher (size, type and magic bytes checked)
+      console.log(`📥 Streaming video from: ${kieVideoUrl}`);
+      const { stream, contentLength } = await openSafeDownload(kieVideoUrl, 'video', {
+        maxBytes: MAX_VIDEO_BYTES,
+        timeoutMs: DOWNLOAD_TIMEOUT_MS
+      });
+      source = stream;
+      const tee = localPath ? teeToFile(stream, localPath) : undefined;
+      
+      console.log(`☁️ Uploading to ${getStorage().id} storage...`);
+      const [videoUpload, transferredThumbnail] = await Promise.all([
+        uploadStreamToR2(tee?.stream || stream, masterKey, 'video/mp4', {
+          maxBytes: MAX_VIDEO_BYTES,
+          contentLength,
+          onProgress: trackProgress('video', options.onProgress)
+        }),
+        kieThumbnailUrl
+          ? transferToStorage(kieThumbnailUrl, thumbnailKey, 'image/jpeg', 'thumbnail', MAX_THUMBNAIL_BYTES, options.onProgress)
+          : undefined,
+        tee?.written
+      ]);
+      
+      const thumbnailUpload = transferredThumbnail
+        || await extractAndUploadThumbnail(localPath as string, thumbnailKey);
+      const probe = await probeProcessedVideo(localPath, masterKey).catch((probeError): VideoProbeResult | undefined => {
+        console.warn(`⚠️ Failed to probe video for task ${metadata.taskId}:`, probeError);
+        return undefined;
+      });
+      
+      if (probe) {
+        console.log(`🔎 Probed video: ${probe.width}x${probe.height} ${probe.videoCodec}, ${probe.durationSeconds}s`);
+      }
+      
+      const videoKey = options.watermark ? `videos/${videoName}-wm.mp4` : masterKey;
+      if (options.watermark) {
+        watermarked = await renderAndUploadWatermarked(localPath as string, videoKey, options.watermark);
+      }
+      const delivered = watermarked || videoUpload;
+      
+      // Streaming renditions are cut from the delivered video so they carry the same watermark.
+      // Packaging is best-effort: the MP4 is already stored and playable without it.
       try {
-        fs.unlinkSync(localThumbnailPath);
-        console.log(`🧹 Cleaned up thumbnail file: ${localThumbnailPath}`);
-      } catch (cleanupError) {
-        console.warn(`⚠️ Failed to cleanup thumbnail file: ${cleanupError}`);
+        if (hlsEnabled && probe && localPath) {
+          hls = await packageHls(watermarked?.filePath || localPath, `hls/${videoName}`, probe);
+        }
+      } catch (hlsError) {
+        console.warn(`⚠️ Failed to package HLS for task ${metadata.taskId}:`, hlsError);
       }
+      
+      console.log(`✅ Upload complete:`);
+      console.log(`   - Video URL: ${delivered.url} (${delivered.size} bytes)${options.watermark ? ' [watermarked]' : ''}`);
+      console.log(`   - Thumbnail URL: ${thumbnailUpload.url} (${thumbnailUpload.size} bytes)`);
+      
+      return {
+        videoUrl: delivered.url,
+        thumbnailUrl: thumbnailUpload.url,
+        videoKey,
+        thumbnailKey,
+        videoFileSize: delivered.size,
+        masterKey,
+        masterFileSize: videoUpload.size,
+        watermarked: !!options.watermark,
+        hlsMasterKey: hls?.masterKey,
+        renditions: hls?.renditions || [],
+        thumbnailFileSize: thumbnailUpload.size,
+        probe
+      };
+    } finally {
+      // A failed upload stops reading; destroy the download so the temp copy does not stall
+      source?.destroy();
+      cleanupTempFiles([localPath, watermarked?.filePath].filter((filePath): filePath is string => !!filePath));
     }
     
+  } catch (error) {
+    console.error(`❌ Error processing video for task ${metadata.taskId}:`, error);
     throw error;
   }
 }
 
+/**
+ * Build a short title from the prompt: its first sentence, cut at a word boundary
+ */
+export function buildVideoTitle(prompt: string | undefined, maxLength: number = 60): string {
+  const firstSentence = (prompt || '').trim().split(/[.!?。！？]/)[0].replace(/\s+/g, ' ').trim();
+  if (!firstSentence) {
+    return `AI Video ${new Date().toISOString().slice(0, 10)}`;
+  }
+  if (firstSentence.length <= maxLength) {
+    return firstSentence;
+  }
+  const cut = firstSentence.slice(0, maxLength);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > maxLength / 2 ? cut.slice(0, lastSpace) : cut).trim()}…`;
+}
+
 /**
  * Save processed video to database
+ * Requested settings come from the generation metadata, technical details from ffprobe.
  */
 export async function saveVideoToDatabase(
   processingResult: VideoProcessingResult,
@@ -188,27 +494,50 @@ export async function saveVideoToDatabase(
   try {
     console.log(`💾 Saving video to database for task: ${metadata.taskId}`);
     
+    if (!metadata.provider || !metadata.model) {
+      throw new Error(`Missing provider or model for task ${metadata.taskId}`);
+    }
+    
     const supabase = createClient();
-    console.log('user_id', metadata.userId);
+    const probe = processingResult.probe;
+    const actualDuration = probe?.durationSeconds;
+    
     // Prepare video data
     const videoData = {
       user_id: metadata.userId || null,
       task_id: metadata.taskId, // Store the KIE task ID for tracking
-      title: `ASMR Video ${new Date().toISOString().slice(0, 10)}`,
-      description: 'AI-generated ASMR video via KIE API',
-      prompt: metadata.originalPrompt || 'Generated via KIE API',
+      title: buildVideoTitle(metadata.originalPrompt),
+      description: `AI-generated video (${metadata.provider} / ${metadata.model})`,
+      prompt: metadata.originalPrompt || null,
       triggers: metadata.triggers || [],
-      category: 'Object', // Default category
+      category: metadata.category || null,
       status: 'ready',
-      credit_cost: 20, // Runway costs 20 credits
-      duration: metadata.duration || '5s',
-      resolution: metadata.quality || '720p',
+      credit_cost: metadata.creditCost ?? null,
+      duration: `${Math.round(actualDuration ?? metadata.duration ?? 5)}s`,
+      requested_duration: metadata.duration ?? null,
+      duration_seconds: actualDuration ?? null,
+      resolution: metadata.quality || (probe?.height ? `${probe.height}p` : '720p'),
       aspect_ratio: metadata.aspectRatio || '16:9',
-      preview_url: processingResult.videoUrl,
-      download_url: processingResult.videoUrl,
-      thumbnail_url: processingResult.thumbnailUrl,
+      width: probe?.width ?? null,
+      height: probe?.height ?? null,
+      video_codec: probe?.videoCodec ?? null,
+      audio_codec: probe?.audioCodec ?? null,
+      bitrate: probe?.bitrate ?? null,
+      frame_rate: probe?.frameRate ?? null,
+      // No permanent URLs: playback and download links are signed per request
+      video_key: processingResult.videoKey,
+      thumbnail_key: processingResult.thumbnailKey,
+      master_key: processingResult.masterKey,
+      master_file_size: processingResult.masterFileSize,
+      watermarked: processingResult.watermarked,
+      hls_master_key: processingResult.hlsMasterKey ?? null,
+      renditions: processingResult.renditions,
+      preview_url: null,
+      download_url: null,
+      thumbnail_url: null,
       file_size: processingResult.videoFileSize,
-      provider: 'kie-runway',
+      provider: `kie-${metadata.provider}`,
+      model: metadata.model,
       generation_completed_at: new Date().toISOString(),
       created_at: new Date().toISOString(),
       updated_at: new Date().toISOString()
@@ -260,14 +589,25 @@ export function cleanupTempFiles(filePaths: string[]): void {
  */
 export async function completeVideoProcessing(
   kieVideoUrl: string,
-  kieThumbnailUrl: string,
+  kieThumbnailUrl: string | undefined,
   metadata: VideoMetadata
-): Promise<{ videoId: string; videoUrl: string; thumbnailUrl: string }> {
-  let processingResult: VideoProcessingResult | null = null;
-  
+): Promise<{ videoId: string; videoKey: string; thumbnailKey: string }> {
   try {
-    // Process the video and thumbnail (download both, upload to R2)
-    processingResult = await processKieVideoAndThumbnail(kieVideoUrl, kieThumbnailUrl, metadata);
+    // Free/trial output is watermarked; the clean master is kept for a later upgrade
+    const watermark = await shouldWatermarkForUser(metadata.userId) ? getWatermarkConfig() : undefined;
+    
+    // Process the video and thumbnail (stream both into storage)
+    const processingResult = await processKieVideoAndThumbnail(kieVideoUrl, kieThumbnailUrl, metadata, { watermark });
+    
+    // Charge the credits reserved when the generation was submitted (free generations hold none).
+    // An uncharged video is not delivered; the caller fails the task and refunds anything taken
+    if (metadata.userId && metadata.creditCost !== 0) {
+      const captureResult = await captureCreditHold({ taskId: metadata.taskId });
+      
+      if (!captureResult.success) {
+        throw new Error(`Failed to capture credit hold for task ${metadata.taskId}: ${captureResult.error}`);
+      }
+    }
     
     // Save to database
     const { videoId } = await saveVideoToDatabase(processingResult, metadata);
@@ -285,22 +625,16 @@ export async function completeVideoProcessing(
       }
     }
     
-    // Cleanup temp files
-    cleanupTempFiles([processingResult.localVideoPath, processingResult.localThumbnailPath]);
-    
     return {
       videoId,
-      videoUrl: processingResult.videoUrl,
-      thumbnailUrl: processingResult.thumbnailUrl
+      videoKey: processingResult.videoKey,
+      thumbnailKey: processingResult.thumbnailKey
     };
     
   } catch (error) {
-    // Cleanup temp files on error
-    if (processingResult) {
-      cleanupTempFiles([
-        processingResult.localVideoPath,
-        processingResult.localThumbnailPath
-      ].filter(Boolean));
+    // The video was not delivered, so don't charge the reserved credits
+    if (metadata.userId) {
+      await releaseCreditHold({ taskId: metadata.taskId });
     }
     
     throw error;
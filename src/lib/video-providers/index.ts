@@ -0,0 +1,24 @@
+import { VideoProvider, VideoProviderId } from './types';
+import { runwayProvider } from './runway';
+import { veo3Provider } from './veo3';
+
+export * from './types';
+
+const providers: Record<VideoProviderId, VideoProvider> = {
+  runway: runwayProvider,
+  veo3: veo3Provider
+};
+
+export const DEFAULT_VIDEO_PROVIDER: VideoProviderId = 'veo3';
+
+export function getVideoProvider(id: VideoProviderId = DEFAULT_VIDEO_PROVIDER): VideoProvider {
+  const provider = providers[id];
+  if (!provider) {
+    throw new Error(`Unknown video provider: ${id}`);
+  }
+  return provider;
+}
+
+export function listVideoProviders(): VideoProvider[] {
+  return Object.values(providers);
+}
@@ -0,0 +1,70 @@
+import { TaskStatus } from '../kie-veo3-client';
+import { VideoProvider } from './types';
+
+export const runwayProvider: VideoProvider = {
+  id: 'runway',
+  capabilities: {
+    models: ['runway-duration-5-generate'],
+    defaultModel: 'runway-duration-5-generate',
+    durations: [5, 8],
+    qualities: ['720p', '1080p'],
+    aspectRatios: ['16:9', '4:3', '1:1', '3:4', '9:16'],
+    unsupportedCombinations: [{ duration: 8, quality: '1080p' }],
+    imageToVideo: true,
+    maxPromptLength: 1800,
+    statusMode: 'polling',
+    taskDeadlineSeconds: 15 * 60
+  },
+  generateEndpoint: '/runway/generate',
+
+  buildGenerateRequest(options) {
+    const requestData: Record<string, unknown> = {
+      prompt: options.prompt,
+      model: this.capabilities.defaultModel,
+      duration: options.duration,
+      quality: options.quality,
+      aspectRatio: options.aspectRatio,
+      waterMark: options.waterMark || '',
+      callBackUrl: options.callBackUrl,
+      enableFallback: false
+    };
+
+    // Runway takes a single reference image
+    if (options.imageUrl) {
+      requestData.imageUrl = options.imageUrl;
+    }
+
+    return requestData;
+  },
+
+  getStatusPath(taskId) {
+    return `/runway/record-detail?taskId=${encodeURIComponent(taskId)}`;
+  },
+
+  // Map Runway record-detail states to our internal status
+  parseStatus(taskId, data): TaskStatus {
+    if (data.state === 'success' && data.videoInfo?.videoUrl) {
+      return {
+        taskId,
+        status: 'completed',
+        progress: 100,
+        result: {
+          videoUrl: data.videoInfo.videoUrl,
+          thumbnailUrl: data.videoInfo.imageUrl,
+          duration: undefined
+        }
+      };
+    }
+
+    if (data.state === 'fail' || data.state === 'failed') {
+      return { taskId, status: 'failed', progress: 0, error: data.failMsg || 'Generation failed' };
+    }
+
+    if (data.state === 'processing' || data.state === 'running') {
+      return { taskId, status: 'processing', progress: 50 };
+    }
+
+    // 'pending', 'queue', 'waiting' and unknown states
+    return { taskId, status: 'pending', progress: 10 };
+  }
+};
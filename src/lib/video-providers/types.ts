@@ -0,0 +1,33 @@
+import { VideoGenerationOptions, TaskStatus } from '../kie-veo3-client';
+
+export type VideoProviderId = 'runway' | 'veo3';
+
+/**
+ * What a generation backend supports. Validation and the UI read these
+ * instead of hard-coding per-provider rules.
+ */
+export interface VideoProviderCapabilities {
+  models: string[];
+  defaultModel: string;
+  durations: VideoGenerationOptions['duration'][];
+  qualities: VideoGenerationOptions['quality'][];
+  aspectRatios: VideoGenerationOptions['aspectRatio'][];
+  // Duration/quality pairs the backend rejects
+  unsupportedCombinations: { duration: VideoGenerationOptions['duration']; quality: VideoGenerationOptions['quality'] }[];
+  imageToVideo: boolean;
+  maxPromptLength: number;
+  // 'callback': results only arrive via callBackUrl; 'polling': status can also be queried
+  statusMode: 'polling' | 'callback';
+  // How long a task may go without a callback before the reaper steps in
+  taskDeadlineSeconds: number;
+}
+
+export interface VideoProvider {
+  id: VideoProviderId;
+  capabilities: VideoProviderCapabilities;
+  generateEndpoint: string;
+  buildGenerateRequest(options: VideoGenerationOptions): Record<string, unknown>;
+  // Only for providers with statusMode 'polling'
+  getStatusPath?(taskId: string): string;
+  parseStatus?(taskId: string, data: any): TaskStatus;
+}
@@ -0,0 +1,38 @@
+import { VideoProvider } from './types';
+
+export const veo3Provider: VideoProvider = {
+  id: 'veo3',
+  capabilities: {
+    models: ['veo3_fast', 'veo3'],
+    defaultModel: 'veo3_fast',
+    durations: [5, 8],
+    qualities: ['720p', '1080p'],
+    aspectRatios: ['16:9', '4:3', '1:1', '3:4', '9:16'],
+    unsupportedCombinations: [{ duration: 8, quality: '1080p' }],
+    imageToVideo: true,
+    maxPromptLength: 1800,
+    statusMode: 'callback',
+    taskDeadlineSeconds: 30 * 60
+  },
+  generateEndpoint: '/veo/generate',
+
+  buildGenerateRequest(options) {
+    const requestData: Record<string, unknown> = {
+      prompt: options.prompt,
+      model: options.model || this.capabilities.defaultModel,
+      duration: options.duration,
+      quality: options.quality,
+      aspectRatio: options.aspectRatio,
+      waterMark: options.waterMark || '',
+      callBackUrl: options.callBackUrl,
+      enableFallback: false
+    };
+
+    // VEO3 takes an array of reference images
+    if (options.imageUrl) {
+      requestData.imageUrls = [options.imageUrl];
+    }
+
+    return requestData;
+  }
+};
@@ -0,0 +1,150 @@
+import { createServiceClient } from './supabase/server';
+import { getStorage } from './storage';
+import { getUserPlan } from './user-plan';
+import { WatermarkOptions, WatermarkPosition } from './r2-upload';
+import { deleteHlsPackage, packageHlsFromStorage, VideoRendition } from './video-processor';
+
+// Plans whose videos are watermarked unless pricing_plans.feature_limits.watermark says otherwise
+const WATERMARKED_PLANS = ['free', 'trial'];
+
+const WATERMARK_POSITIONS: WatermarkPosition[] = ['top-left', 'top-right', 'bottom-left', 'bottom-right', 'center'];
+
+function parseNumber(value: string | undefined, fallback: number, min: number, max: number): number {
+  const parsed = value ? parseFloat(value) : NaN;
+  return Number.isFinite(parsed) ? Math.min(max, Math.max(min, parsed)) : fallback;
+}
+
+/**
+ * Watermark appearance, from WATERMARK_TEXT / WATERMARK_LOGO_PATH / WATERMARK_POSITION /
+ * WATERMARK_OPACITY / WATERMARK_MARGIN / WATERMARK_LOGO_SCALE / WATERMARK_FONT_PATH.
+ * Without a text or logo, the site's host name is used as text.
+ */
+export function getWatermarkConfig(): WatermarkOptions {
+  const position = process.env.WATERMARK_POSITION as WatermarkPosition;
+  const logoPath = process.env.WATERMARK_LOGO_PATH || undefined;
+  let text = process.env.WATERMARK_TEXT || undefined;
+
+  if (!text && !logoPath) {
+    try {
+      text = new URL(process.env.NEXT_PUBLIC_SITE_URL || '').host || undefined;
+    } catch {
+      text = undefined;
+    }
+    text = text || 'AI Generated';
+  }
+
+  return {
+    text,
+    logoPath,
+    position: WATERMARK_POSITIONS.includes(position) ? position : 'bottom-right',
+    opacity: parseNumber(process.env.WATERMARK_OPACITY, 0.6, 0, 1),
+    margin: Math.round(parseNumber(process.env.WATERMARK_MARGIN, 24, 0, 500)),
+    logoScale: parseNumber(process.env.WATERMARK_LOGO_SCALE, 0.15, 0.01, 1),
+    fontPath: process.env.WATERMARK_FONT_PATH || undefined
+  };
+}
+
+export async function shouldWatermarkForUser(userId: string | undefined): Promise<boolean> {
+  if (process.env.WATERMARK_ENABLED === 'false') {
+    return false;
+  }
+  // Videos without an owner are treated like the free tier
+  if (!userId) {
+    return true;
+  }
+
+  const { planType, featureLimits } = await getUserPlan(userId);
+  return typeof featureLimits.watermark === 'boolean'
+    ? featureLimits.watermark
+    : WATERMARKED_PLANS.includes(planType);
+}
+
+/**
+ * After an upgrade, point the user's watermarked videos at their clean masters
+ * (call from the subscription webhook). HLS is re-packaged from the master; the
+ * watermarked copy and its HLS package are deleted. If packaging fails, the video
+ * keeps no renditions and players fall back to the clean MP4.
+ */
+export async function unlockWatermarkedVideos(
+  userId: string
+): Promise<{ success: boolean; unlocked?: number; error?: string }> {
+  try {
+    if (await shouldWatermarkForUser(userId)) {
+      return { success: true, unlocked: 0 };
+    }
+
+    const supabase = createServiceClient();
+
+    const { data: videos, error } = await supabase
+      .from('videos')
+      .select('id, video_key, master_key, master_file_size, hls_master_key, renditions')
+      .eq('user_id', userId)
+      .eq('watermarked', true)
+      .not('master_key', 'is', null);
+
+    if (error) {
+      console.error('Error fetching watermarked videos:', error);
+      return { success: false, error: 'Failed to fetch watermarked videos' };
+    }
+
+    let unlocked = 0;
+    for (const video of videos || []) {
+      const oldRenditions: VideoRendition[] = video.renditions || [];
+      let hls: { masterKey: string; renditions: VideoRendition[] } | undefined;
+      if (video.hls_master_key) {
+        const name = video.master_key.slice(video.master_key.lastIndexOf('/') + 1).replace(/\.mp4$/, '');
+        try {
+          hls = await packageHlsFromStorage(video.master_key, `hls/${name}-clean`);
+        } catch (hlsError) {
+          console.warn(`⚠️ Failed to re-package HLS for video ${video.id}:`, hlsError);
+        }
+      }
+
+      const { data: updated, error: updateError } = await supabase
+        .from('videos')
+        .update({
+          video_key: video.master_key,
+          file_size: video.master_file_size,
+          watermarked: false,
+          hls_master_key: hls?.masterKey || null,
+          renditions: hls?.renditions || [],
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', video.id)
+        .eq('watermarked', true)
+        .select('id');
+
+      if (updateError || !updated?.length) {
+        if (updateError) {
+          console.error(`Error unlocking video ${video.id}:`, updateError);
+        }
+        // Not applied (or already unlocked elsewhere): the new package is unreferenced
+        if (hls) {
+          await deleteHlsPackage(hls.masterKey, hls.renditions).catch(deleteError => {
+            console.warn(`⚠️ Failed to delete unused HLS package ${hls?.masterKey}:`, deleteError);
+          });
+        }
+        continue;
+      }
+
+      unlocked++;
+      if (video.video_key && video.video_key !== video.master_key) {
+        await getStorage().deleteObject(video.video_key).catch(deleteError => {
+          console.warn(`⚠️ Failed to delete watermarked copy ${video.video_key}:`, deleteError);
+        });
+      }
+      if (video.hls_master_key) {
+        await deleteHlsPackage(video.hls_master_key, oldRenditions).catch(deleteError => {
+          console.warn(`⚠️ Failed to delete watermarked HLS package ${video.hls_master_key}:`, deleteError);
+        });
+      }
+    }
+
+    console.log(`🔓 Unlocked ${unlocked} watermarked videos for user ${userId}`);
+    return { success: true, unlocked };
+
+  } catch (error) {
+    console.error('Error in unlockWatermarkedVideos:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}